@@ -6,10 +6,19 @@ import dotenv from 'dotenv';
 import { specs, swaggerUi } from './config/swagger';
 import { logger } from './utils/logger';
 import { errorHandler, notFound } from './middleware/error.middleware';
+import { authorizationExpiryService } from './services/authorization-expiry.service';
+import { fraudRuleConfigService } from './config/fraud-rules';
+import { currencyService } from './config/currencies';
+import { promptTemplateService } from './config/prompt-templates';
+import { riskCacheService } from './services/risk-cache.service';
+import { fraudConfigAdminService } from './services/fraud-config-admin.service';
+import { webhookService } from './services/webhook.service';
 
 // Routes
 import authRoutes from './routes/auth.routes';
 import paymentRoutes from './routes/payment.routes';
+import reviewRoutes from './routes/review.routes';
+import adminRoutes from './routes/admin.routes';
 
 dotenv.config();
 
@@ -68,6 +77,8 @@ app.get('/health', (req, res) => {
 // API Routes
 app.use(`${API_PREFIX}/auth`, authRoutes);
 app.use(`${API_PREFIX}/payments`, paymentRoutes);
+app.use(`${API_PREFIX}/reviews`, reviewRoutes);
+app.use(`${API_PREFIX}/admin`, adminRoutes);
 
 // Error handling
 app.use(notFound);
@@ -76,11 +87,21 @@ app.use(errorHandler);
 // Graceful shutdown
 process.on('SIGTERM', () => {
   logger.info('SIGTERM received, shutting down gracefully');
+  authorizationExpiryService.stop();
+  fraudRuleConfigService.unwatchConfig();
+  currencyService.unwatchRates();
+  promptTemplateService.unwatchTemplates();
+  fraudConfigAdminService.stop();
   process.exit(0);
 });
 
 process.on('SIGINT', () => {
   logger.info('SIGINT received, shutting down gracefully');
+  authorizationExpiryService.stop();
+  fraudRuleConfigService.unwatchConfig();
+  currencyService.unwatchRates();
+  promptTemplateService.unwatchTemplates();
+  fraudConfigAdminService.stop();
   process.exit(0);
 });
 
@@ -89,6 +110,23 @@ const server = app.listen(PORT, () => {
   logger.info(`🚀 Payment Gateway Proxy server running on port ${PORT}`);
   logger.info(`📚 API Documentation available at http://localhost:${PORT}/docs`);
   logger.info(`🔍 Health check at http://localhost:${PORT}/health`);
+  authorizationExpiryService.start();
+  webhookService.start();
+  if (process.env.FRAUD_RULES_HOT_RELOAD !== 'false') {
+    fraudRuleConfigService.watchConfig();
+  }
+  if (process.env.CURRENCY_RATES_HOT_RELOAD !== 'false') {
+    currencyService.watchRates();
+  }
+  if (process.env.PROMPT_TEMPLATES_HOT_RELOAD !== 'false') {
+    // Answers cached under the old templates would otherwise linger until they expire
+    promptTemplateService.watchTemplates(() => void riskCacheService.invalidate());
+  }
+  // Stored admin changes take precedence over the YAML file
+  fraudConfigAdminService.sync().catch((error) => {
+    logger.error('Failed to load stored fraud config', { error: (error as Error).message });
+  });
+  fraudConfigAdminService.start();
 });
 
 export default app;
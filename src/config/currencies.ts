@@ -0,0 +1,163 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as yaml from 'js-yaml';
+import { logger } from '../utils/logger';
+import { CurrencyTable } from '../types';
+import { currencyTableSchema } from '../schemas/currency.schemas';
+
+export class CurrencyService {
+  private table!: CurrencyTable;
+  private static instance: CurrencyService;
+  private ratesPath = process.env.CURRENCY_RATES_PATH || path.join(__dirname, '../../config/currencies.yml');
+  private watching = false;
+  private reloadTimer?: NodeJS.Timeout;
+
+  private constructor() {
+    this.loadRates();
+  }
+
+  public static getInstance(): CurrencyService {
+    if (!CurrencyService.instance) {
+      CurrencyService.instance = new CurrencyService();
+    }
+    return CurrencyService.instance;
+  }
+
+  private loadRates(): void {
+    try {
+      this.table = this.readRates();
+
+      logger.info('Currency rates loaded successfully', {
+        base: this.table.base,
+        currenciesCount: Object.keys(this.table.currencies).length
+      });
+    } catch (error) {
+      logger.error('Failed to load currency rates', { error: (error as Error).message });
+      this.table = this.getDefaultTable();
+    }
+  }
+
+  private readRates(): CurrencyTable {
+    const { error, value } = currencyTableSchema.validate(
+      yaml.load(fs.readFileSync(this.ratesPath, 'utf8')),
+      { abortEarly: false }
+    );
+    if (error) {
+      throw new Error(`Invalid currency rates: ${error.details.map(detail => detail.message).join('; ')}`);
+    }
+    return value as CurrencyTable;
+  }
+
+  /**
+   * Re-reads the rate table. An invalid file is rejected and the last good
+   * table stays active.
+   */
+  public reloadRates(): boolean {
+    try {
+      this.table = this.readRates();
+      logger.info('Currency rates reloaded', {
+        base: this.table.base,
+        updatedAt: this.table.updated_at
+      });
+      return true;
+    } catch (error) {
+      logger.error('Rejected currency rates change; keeping last good rates', {
+        path: this.ratesPath,
+        error: (error as Error).message
+      });
+      return false;
+    }
+  }
+
+  public watchRates(): void {
+    if (this.watching) {
+      return;
+    }
+
+    const watcher = fs.watchFile(
+      this.ratesPath,
+      { interval: parseInt(process.env.CURRENCY_RATES_WATCH_INTERVAL_MS || '5000') },
+      (current, previous) => {
+        if (current.mtimeMs === previous.mtimeMs) {
+          return;
+        }
+        clearTimeout(this.reloadTimer);
+        this.reloadTimer = setTimeout(() => this.reloadRates(), 100);
+      }
+    );
+    watcher.unref();
+    this.watching = true;
+    logger.info('Watching currency rates for changes', { path: this.ratesPath });
+  }
+
+  public unwatchRates(): void {
+    if (this.watching) {
+      fs.unwatchFile(this.ratesPath);
+      clearTimeout(this.reloadTimer);
+      this.watching = false;
+    }
+  }
+
+  private getDefaultTable(): CurrencyTable {
+    return {
+      base: 'USD',
+      currencies: {
+        USD: { exponent: 2, rate: 1 },
+        EUR: { exponent: 2, rate: 1.08 },
+        GBP: { exponent: 2, rate: 1.27 },
+        CAD: { exponent: 2, rate: 0.73 }
+      }
+    };
+  }
+
+  public getBaseCurrency(): string {
+    return this.table.base;
+  }
+
+  public getSupportedCurrencies(): string[] {
+    return Object.keys(this.table.currencies).sort();
+  }
+
+  public isSupported(currency: string): boolean {
+    return currency in this.table.currencies;
+  }
+
+  public getExponent(currency: string): number | undefined {
+    return this.table.currencies[currency]?.exponent;
+  }
+
+  /**
+   * Converts an amount in the currency's minor units to minor units of the
+   * base currency, so rule thresholds mean the same thing for every currency.
+   */
+  public toBaseAmount(amount: number, currency: string): number | undefined {
+    const source = this.table.currencies[currency];
+    const base = this.table.currencies[this.table.base];
+    if (!source || typeof amount !== 'number') {
+      return undefined;
+    }
+
+    const major = amount / Math.pow(10, source.exponent);
+    return Math.round(major * source.rate * Math.pow(10, base.exponent));
+  }
+
+  // 10050 USD -> 100.5, 123456 JPY -> 123456
+  public toMajorAmount(amount: number, currency: string): number | undefined {
+    const exponent = this.getExponent(currency);
+    if (exponent === undefined || typeof amount !== 'number') {
+      return undefined;
+    }
+    return amount / Math.pow(10, exponent);
+  }
+
+  // 123456 JPY -> "123456 JPY", 10050 USD -> "100.50 USD"
+  public formatAmount(amount: number, currency: string): string {
+    const exponent = this.getExponent(currency);
+    if (exponent === undefined) {
+      return `${amount} ${currency}`;
+    }
+    return `${(amount / Math.pow(10, exponent)).toFixed(exponent)} ${currency}`;
+  }
+}
+
+export const currencyService = CurrencyService.getInstance();
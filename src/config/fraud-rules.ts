@@ -2,14 +2,42 @@ import * as fs from 'fs';
 import * as path from 'path';
 import * as yaml from 'js-yaml';
 import { logger } from '../utils/logger';
-import { FraudRuleConfig, FraudRule, ProviderConfig, RiskThresholds } from '../types';
+import {
+  FraudRuleConfig,
+  FraudRule,
+  ProviderConfig,
+  RiskThresholds,
+  ScoringConfig,
+  FraudCondition,
+  FraudConditionGroup,
+  FraudConditionNode,
+  ShadowRuleMatch
+} from '../types';
+import { fraudRuleConfigSchema } from '../schemas/fraud-rules.schemas';
+import { deriveTimeFields, isValidTimeZone } from '../utils/time-fields';
+import { currencyService } from './currencies';
+
+export class ConfigValidationError extends Error {
+  constructor(public errors: string[]) {
+    super(`Invalid fraud rules configuration: ${errors.join('; ')}`);
+    this.name = 'ConfigValidationError';
+  }
+}
 
 export class FraudRuleConfigService {
   private config!: FraudRuleConfig;
   private static instance: FraudRuleConfigService;
+  private configPath = process.env.FRAUD_RULES_PATH || path.join(__dirname, '../../config/fraud-rules.yml');
+  private watching = false;
+  private reloadTimer?: NodeJS.Timeout;
+  private source: 'file' | 'store' = 'file';
 
-  private constructor() {
-    this.loadConfig();
+  private constructor(config?: FraudRuleConfig) {
+    if (config) {
+      this.config = config;
+    } else {
+      this.loadConfig();
+    }
   }
 
   public static getInstance(): FraudRuleConfigService {
@@ -19,23 +47,126 @@ export class FraudRuleConfigService {
     return FraudRuleConfigService.instance;
   }
 
+  /**
+   * Detached instance for evaluating a candidate configuration (dry runs).
+   * It never watches files and doesn't touch the live configuration.
+   */
+  public static fromConfig(candidate: unknown): FraudRuleConfigService {
+    return new FraudRuleConfigService(FraudRuleConfigService.getInstance().validateConfig(candidate));
+  }
+
   private loadConfig(): void {
     try {
-      const configPath = path.join(__dirname, '../../config/fraud-rules.yml');
-      const configFile = fs.readFileSync(configPath, 'utf8');
-      this.config = yaml.load(configFile) as FraudRuleConfig;
+      this.config = this.readConfig();
       
       logger.info('Fraud rules configuration loaded successfully', {
         rulesCount: this.config.rules.length,
         providersCount: this.config.providers.length
       });
     } catch (error) {
-      logger.error('Failed to load fraud rules configuration', error);
+      logger.error('Failed to load fraud rules configuration', {
+        error: (error as Error).message,
+        errors: (error as ConfigValidationError).errors
+      });
       // Load default configuration
       this.config = this.getDefaultConfig();
     }
   }
 
+  private readConfig(): FraudRuleConfig {
+    const configFile = fs.readFileSync(this.configPath, 'utf8');
+    return this.validateConfig(yaml.load(configFile));
+  }
+
+  public validateConfig(candidate: unknown): FraudRuleConfig {
+    const { error, value } = fraudRuleConfigSchema.validate(candidate, { abortEarly: false });
+    if (error) {
+      throw new ConfigValidationError(error.details.map(detail => detail.message));
+    }
+    return value as FraudRuleConfig;
+  }
+
+  /**
+   * Re-reads the YAML file. Invalid edits are rejected and the last good
+   * configuration stays active; the swap itself is a single assignment.
+   */
+  public reloadConfig(): boolean {
+    if (this.source === 'store') {
+      logger.warn('Ignoring fraud rules file change; configuration is managed through the admin API', {
+        path: this.configPath
+      });
+      return false;
+    }
+
+    try {
+      const next = this.readConfig();
+      this.config = next;
+
+      logger.info('Fraud rules configuration reloaded', {
+        rulesCount: next.rules.length,
+        providersCount: next.providers.length
+      });
+      return true;
+    } catch (error) {
+      logger.error('Rejected fraud rules configuration change; keeping last good configuration', {
+        path: this.configPath,
+        error: (error as Error).message,
+        errors: (error as ConfigValidationError).errors
+      });
+      return false;
+    }
+  }
+
+  /**
+   * Swaps in a configuration managed through the admin API. Once applied,
+   * file changes are ignored so they can't silently undo runtime edits.
+   */
+  public applyConfig(candidate: FraudRuleConfig): FraudRuleConfig {
+    const next = this.validateConfig(candidate);
+    this.config = next;
+    this.source = 'store';
+
+    logger.info('Fraud rules configuration applied from store', {
+      rulesCount: next.rules.length,
+      providersCount: next.providers.length
+    });
+    return next;
+  }
+
+  public getConfig(): FraudRuleConfig {
+    return JSON.parse(JSON.stringify(this.config));
+  }
+
+  public watchConfig(): void {
+    if (this.watching) {
+      return;
+    }
+
+    // Polling survives editors that replace the file instead of writing in place
+    const watcher = fs.watchFile(
+      this.configPath,
+      { interval: parseInt(process.env.FRAUD_RULES_WATCH_INTERVAL_MS || '2000') },
+      (current, previous) => {
+        if (current.mtimeMs === previous.mtimeMs) {
+          return;
+        }
+        clearTimeout(this.reloadTimer);
+        this.reloadTimer = setTimeout(() => this.reloadConfig(), 100);
+      }
+    );
+    watcher.unref();
+    this.watching = true;
+    logger.info('Watching fraud rules configuration for changes', { path: this.configPath });
+  }
+
+  public unwatchConfig(): void {
+    if (this.watching) {
+      fs.unwatchFile(this.configPath);
+      clearTimeout(this.reloadTimer);
+      this.watching = false;
+    }
+  }
+
   private getDefaultConfig(): FraudRuleConfig {
     return {
       rules: [
@@ -45,10 +176,10 @@ export class FraudRuleConfigService {
           weight: 0.3,
           action: 'flag',
           conditions: [{
-            field: 'amount',
+            field: 'amount_base',
             operator: 'gt',
             value: 100000,
-            description: 'Transaction amount exceeds $1000'
+            description: 'Transaction amount exceeds 1000.00 in the base currency'
           }]
         }
       ],
@@ -79,34 +210,58 @@ export class FraudRuleConfigService {
     return this.config.thresholds;
   }
 
-  public reloadConfig(): void {
-    this.loadConfig();
+  // Configs built before scoring strategies existed keep combining with max
+  public getScoring(): ScoringConfig {
+    return this.config.scoring || { strategy: 'max' };
+  }
+
+  public riskLevelForScore(score: number): 'LOW' | 'MEDIUM' | 'HIGH' | 'CRITICAL' {
+    const thresholds = this.getThresholds();
+    if (score >= thresholds.critical) return 'CRITICAL';
+    if (score >= thresholds.high) return 'HIGH';
+    if (score >= thresholds.medium) return 'MEDIUM';
+    return 'LOW';
   }
 
   public evaluateRiskFromRules(transaction: any): {
     score: number;
     factors: Array<{ factor: string; weight: number; description: string }>;
     blockedRules: string[];
+    reviewRules: string[];
+    shadowRules: ShadowRuleMatch[];
   } {
     let totalScore = 0;
     const factors: Array<{ factor: string; weight: number; description: string }> = [];
     const blockedRules: string[] = [];
+    const reviewRules: string[] = [];
+    const shadowRules: ShadowRuleMatch[] = [];
+    // Fields supplied on the transaction win, so samples can pin derived values
+    const fields = {
+      ...this.getTimeFields(transaction),
+      amount_base: currencyService.toBaseAmount(transaction.amount, transaction.currency),
+      amount_major: currencyService.toMajorAmount(transaction.amount, transaction.currency),
+      ...transaction
+    };
 
     for (const rule of this.getRules()) {
       const ruleMatches = rule.conditions.every(condition => 
-        this.evaluateCondition(condition, transaction)
+        this.evaluateNode(condition, fields)
       );
 
-      if (ruleMatches) {
+      if (ruleMatches && rule.mode === 'shadow') {
+        shadowRules.push({ rule: rule.name, action: rule.action, weight: rule.weight });
+      } else if (ruleMatches) {
         totalScore += rule.weight;
         factors.push({
           factor: rule.name,
           weight: rule.weight,
-          description: rule.conditions.map(c => c.description).join(', ')
+          description: rule.conditions.map(c => this.describeNode(c)).join(', ')
         });
 
         if (rule.action === 'block') {
           blockedRules.push(rule.name);
+        } else if (rule.action === 'review') {
+          reviewRules.push(rule.name);
         }
       }
     }
@@ -114,11 +269,44 @@ export class FraudRuleConfigService {
     return {
       score: Math.min(1.0, totalScore),
       factors,
-      blockedRules
+      blockedRules,
+      reviewRules,
+      shadowRules
     };
   }
 
-  private evaluateCondition(condition: any, transaction: any): boolean {
+  private evaluateNode(node: FraudConditionNode, transaction: any): boolean {
+    if (this.isGroup(node)) {
+      if (node.all) {
+        return node.all.every(child => this.evaluateNode(child, transaction));
+      }
+      if (node.any) {
+        return node.any.some(child => this.evaluateNode(child, transaction));
+      }
+      return node.not ? !this.evaluateNode(node.not, transaction) : false;
+    }
+    return this.evaluateCondition(node, transaction);
+  }
+
+  private describeNode(node: FraudConditionNode): string {
+    if (!this.isGroup(node)) {
+      return node.description;
+    }
+    if (node.description) {
+      return node.description;
+    }
+    if (node.not) {
+      return `not (${this.describeNode(node.not)})`;
+    }
+    const children = Array.from(new Set((node.all || node.any || []).map(child => this.describeNode(child))));
+    return children.join(node.any ? ' or ' : ' and ');
+  }
+
+  private isGroup(node: FraudConditionNode): node is FraudConditionGroup {
+    return !('field' in node);
+  }
+
+  private evaluateCondition(condition: FraudCondition, transaction: any): boolean {
     const fieldValue = this.getFieldValue(condition.field, transaction);
     
     switch (condition.operator) {
@@ -126,37 +314,76 @@ export class FraudRuleConfigService {
         return fieldValue > condition.value;
       case 'lt':
         return fieldValue < condition.value;
+      case 'gte':
+        return fieldValue >= condition.value;
+      case 'lte':
+        return fieldValue <= condition.value;
+      case 'between':
+        return fieldValue >= condition.value[0] && fieldValue <= condition.value[1];
       case 'eq':
         return fieldValue === condition.value;
+      case 'in':
+        return condition.value.includes(fieldValue);
+      case 'not_in':
+        return !condition.value.includes(fieldValue);
       case 'contains':
         return String(fieldValue).includes(condition.value);
+      case 'starts_with':
+        return String(fieldValue).startsWith(condition.value);
+      case 'ends_with':
+        return String(fieldValue).endsWith(condition.value);
       case 'regex':
         return new RegExp(condition.value).test(String(fieldValue));
+      case 'exists':
+        return (fieldValue !== undefined && fieldValue !== null) === (condition.value !== false);
       default:
         return false;
     }
   }
 
   private getFieldValue(field: string, transaction: any): any {
-    if (field === 'timestamp') {
-      const day = new Date().getDay();
-      return (day === 0 || day === 6) ? 'weekend' : 'weekday';
-    }
     return transaction[field];
   }
 
+  /**
+   * Time fields come from the transaction's createdAt so replays evaluate the
+   * same way, in the customer's time zone when known, else settings.timezone.
+   */
+  private getTimeFields(transaction: any): Record<string, any> {
+    const createdAt = transaction.createdAt ? new Date(transaction.createdAt) : new Date();
+    if (isNaN(createdAt.getTime())) {
+      return {};
+    }
+
+    const settings = this.config.settings || {};
+    const timeZone = isValidTimeZone(transaction.timezone)
+      ? transaction.timezone
+      : settings.timezone || 'UTC';
+    const fields = deriveTimeFields(createdAt, timeZone, settings.holidays);
+
+    return {
+      ...fields,
+      // Kept for configs written before the derived fields existed
+      timestamp: fields.is_weekend ? 'weekend' : 'weekday'
+    };
+  }
+
   public selectProvider(riskScore: number): string {
+    return this.getEligibleProviders(riskScore)[0]?.name || 'paypal';
+  }
+
+  public getEligibleProviders(riskScore: number): ProviderConfig[] {
     const providers = this.getProviders();
-    
-    for (const provider of providers) {
-      const tolerance = this.getRiskToleranceThreshold(provider.riskTolerance);
-      if (riskScore <= tolerance) {
-        return provider.name;
-      }
+    const eligible = providers.filter(provider =>
+      riskScore <= this.getRiskToleranceThreshold(provider.riskTolerance)
+    );
+
+    if (eligible.length > 0) {
+      return eligible;
     }
-    
+
     // Fallback to the most risk-tolerant provider
-    return providers[providers.length - 1]?.name || 'paypal';
+    return providers.slice(-1);
   }
 
   private getRiskToleranceThreshold(tolerance: string): number {
@@ -0,0 +1,155 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as yaml from 'js-yaml';
+import { logger } from '../utils/logger';
+import { PromptTemplate, PromptTemplateConfig, PromptTemplateSelection, Transaction } from '../types';
+import { promptTemplateConfigSchema } from '../schemas/prompt-template.schemas';
+import { BUILTIN_PROMPT_TEMPLATE } from '../risk-models/prompt';
+
+/**
+ * Risk assessment prompt templates from config/prompts.yml. Each provider or
+ * provider/model can use its own template version, or split its traffic
+ * between versions by weight to A/B test them; a transaction always gets the
+ * same version for the same selection.
+ */
+export class PromptTemplateService {
+  private config!: PromptTemplateConfig;
+  private watching = false;
+  private reloadTimer?: NodeJS.Timeout;
+
+  constructor(
+    private templatesPath: string = process.env.PROMPT_TEMPLATES_PATH || path.join(__dirname, '../../config/prompts.yml')
+  ) {
+    this.loadTemplates();
+  }
+
+  private loadTemplates(): void {
+    try {
+      this.config = this.readTemplates();
+
+      logger.info('Prompt templates loaded successfully', {
+        versions: Object.keys(this.config.templates),
+        default: this.config.default
+      });
+    } catch (error) {
+      logger.error('Failed to load prompt templates, using the built-in prompt', {
+        path: this.templatesPath,
+        error: (error as Error).message
+      });
+      this.config = this.getDefaultConfig();
+    }
+  }
+
+  private readTemplates(): PromptTemplateConfig {
+    const { error, value } = promptTemplateConfigSchema.validate(
+      yaml.load(fs.readFileSync(this.templatesPath, 'utf8')),
+      { abortEarly: false }
+    );
+    if (error) {
+      throw new Error(`Invalid prompt templates: ${error.details.map(detail => detail.message).join('; ')}`);
+    }
+    return value as PromptTemplateConfig;
+  }
+
+  /**
+   * Re-reads the templates file. An invalid file is rejected and the last
+   * good templates stay active.
+   */
+  public reloadTemplates(): boolean {
+    try {
+      this.config = this.readTemplates();
+      logger.info('Prompt templates reloaded', { versions: Object.keys(this.config.templates) });
+      return true;
+    } catch (error) {
+      logger.error('Rejected prompt templates change; keeping last good templates', {
+        path: this.templatesPath,
+        error: (error as Error).message
+      });
+      return false;
+    }
+  }
+
+  /**
+   * Reloads the templates when the file changes; onReload runs after each
+   * change that was accepted.
+   */
+  public watchTemplates(onReload: () => void = () => undefined): void {
+    if (this.watching) {
+      return;
+    }
+
+    const watcher = fs.watchFile(
+      this.templatesPath,
+      { interval: parseInt(process.env.PROMPT_TEMPLATES_WATCH_INTERVAL_MS || '5000') },
+      (current, previous) => {
+        if (current.mtimeMs === previous.mtimeMs) {
+          return;
+        }
+        clearTimeout(this.reloadTimer);
+        this.reloadTimer = setTimeout(() => {
+          if (this.reloadTemplates()) {
+            onReload();
+          }
+        }, 100);
+      }
+    );
+    watcher.unref();
+    this.watching = true;
+    logger.info('Watching prompt templates for changes', { path: this.templatesPath });
+  }
+
+  public unwatchTemplates(): void {
+    if (this.watching) {
+      fs.unwatchFile(this.templatesPath);
+      clearTimeout(this.reloadTimer);
+      this.watching = false;
+    }
+  }
+
+  private getDefaultConfig(): PromptTemplateConfig {
+    const { version, ...template } = BUILTIN_PROMPT_TEMPLATE;
+    return { default: version, templates: { [version]: template } };
+  }
+
+  public getTemplate(version: string): PromptTemplate | undefined {
+    const template = this.config.templates[version];
+    return template ? { version, ...template } : undefined;
+  }
+
+  public getVersions(): string[] {
+    return Object.keys(this.config.templates).sort();
+  }
+
+  // provider/model first, then provider, then the default
+  public select(provider: string, model: string | undefined, transaction: Transaction): PromptTemplate {
+    const select = this.config.select || {};
+    const selection = (model !== undefined ? select[`${provider}/${model}`] : undefined)
+      ?? select[provider]
+      ?? this.config.default;
+
+    return this.getTemplate(this.pick(selection, transaction.id))!;
+  }
+
+  private pick(selection: PromptTemplateSelection, transactionId: string): string {
+    if (typeof selection === 'string') {
+      return selection;
+    }
+
+    const versions = Object.keys(selection).sort().filter(version => selection[version] > 0);
+    const total = versions.reduce((sum, version) => sum + selection[version], 0);
+    // Stable position in [0, total) so retries, hedges and cache lookups agree
+    const position = (parseInt(crypto.createHash('sha256').update(transactionId).digest('hex').slice(0, 8), 16) / 0x100000000) * total;
+
+    let cumulative = 0;
+    for (const version of versions) {
+      cumulative += selection[version];
+      if (position < cumulative) {
+        return version;
+      }
+    }
+    return versions[versions.length - 1];
+  }
+}
+
+export const promptTemplateService = new PromptTemplateService();
@@ -148,6 +148,19 @@ const specs = {
             bearerAuth: []
           }
         ],
+        parameters: [
+          {
+            in: 'header',
+            name: 'Idempotency-Key',
+            required: false,
+            description: 'Client-generated key scoped to the authenticated client; retries with the same key and body replay the first response',
+            schema: {
+              type: 'string',
+              maxLength: 255,
+              example: 'order-1234-attempt'
+            }
+          }
+        ],
         requestBody: {
           required: true,
           content: {
@@ -159,14 +172,13 @@ const specs = {
                   amount: {
                     type: 'number',
                     minimum: 1,
-                    maximum: 1000000,
-                    description: 'Payment amount in cents',
+                    description: 'Payment amount in minor units of the currency, at most 10,000.00 in the base currency',
                     example: 1000
                   },
                   currency: {
                     type: 'string',
-                    enum: ['USD', 'EUR', 'GBP', 'CAD'],
-                    description: 'Payment currency',
+                    pattern: '^[A-Z]{3}$',
+                    description: 'Payment currency (ISO 4217 code listed in config/currencies.yml)',
                     example: 'USD'
                   },
                   source: {
@@ -283,6 +295,46 @@ const specs = {
               }
             }
           },
+          '409': {
+            description: 'Request with the same Idempotency-Key is still in flight',
+            content: {
+              'application/json': {
+                schema: {
+                  type: 'object',
+                  properties: {
+                    success: {
+                      type: 'boolean',
+                      example: false
+                    },
+                    error: {
+                      type: 'string',
+                      example: 'A request with this Idempotency-Key is still being processed'
+                    }
+                  }
+                }
+              }
+            }
+          },
+          '422': {
+            description: 'Idempotency-Key reused with a different payload',
+            content: {
+              'application/json': {
+                schema: {
+                  type: 'object',
+                  properties: {
+                    success: {
+                      type: 'boolean',
+                      example: false
+                    },
+                    error: {
+                      type: 'string',
+                      example: 'Idempotency-Key was already used with a different request payload'
+                    }
+                  }
+                }
+              }
+            }
+          },
           '500': {
             description: 'Internal server error',
             content: {
@@ -452,6 +504,14 @@ const specs = {
     {
       name: 'Payments',
       description: 'Payment processing and status endpoints'
+    },
+    {
+      name: 'Reviews',
+      description: 'Manual review queue for held transactions'
+    },
+    {
+      name: 'Admin',
+      description: 'Runtime management of fraud rules, providers and thresholds'
     }
   ]
 };
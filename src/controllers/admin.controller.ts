@@ -0,0 +1,199 @@
+import { Response } from 'express';
+import { AuthenticatedRequest } from '../middleware/auth.middleware';
+import { AppError } from '../middleware/error.middleware';
+import { ApiResponse, FraudConfigVersion } from '../types';
+import { fraudRuleConfigService } from '../config/fraud-rules';
+import { fraudConfigAdminService } from '../services/fraud-config-admin.service';
+import { ruleSimulationService } from '../services/rule-simulation.service';
+import { riskCacheService } from '../services/risk-cache.service';
+import { logger } from '../utils/logger';
+import { metrics } from '../utils/metrics';
+
+export class AdminController {
+  async getConfig(req: AuthenticatedRequest, res: Response): Promise<void> {
+    res.status(200).json({
+      success: true,
+      data: fraudConfigAdminService.getConfig()
+    } as ApiResponse<any>);
+  }
+
+  async listVersions(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const limit = Math.min(parseInt(String(req.query.limit || '50')) || 50, 500);
+      const versions = await fraudConfigAdminService.listVersions(limit);
+
+      // The audit trail is about who changed what; the full config is in GET /fraud-config
+      res.status(200).json({
+        success: true,
+        data: versions.map(({ config, ...entry }) => entry)
+      } as ApiResponse<any>);
+
+    } catch (error) {
+      this.handleError(res, error, 'Failed to retrieve fraud config history');
+    }
+  }
+
+  async listRules(req: AuthenticatedRequest, res: Response): Promise<void> {
+    res.status(200).json({
+      success: true,
+      data: fraudConfigAdminService.getConfig().config.rules
+    } as ApiResponse<any>);
+  }
+
+  async createRule(req: AuthenticatedRequest, res: Response): Promise<void> {
+    await this.applyChange(res, 201, 'Failed to create rule', () =>
+      fraudConfigAdminService.createRule(req.body, req.clientId!)
+    );
+  }
+
+  async updateRule(req: AuthenticatedRequest, res: Response): Promise<void> {
+    await this.applyChange(res, 200, 'Failed to update rule', () =>
+      fraudConfigAdminService.updateRule(req.params.name, req.body, req.clientId!)
+    );
+  }
+
+  async setRuleEnabled(req: AuthenticatedRequest, res: Response): Promise<void> {
+    await this.applyChange(res, 200, 'Failed to update rule', () =>
+      fraudConfigAdminService.setRuleEnabled(req.params.name, req.body.enabled, req.clientId!)
+    );
+  }
+
+  async deleteRule(req: AuthenticatedRequest, res: Response): Promise<void> {
+    await this.applyChange(res, 200, 'Failed to delete rule', () =>
+      fraudConfigAdminService.deleteRule(req.params.name, req.clientId!)
+    );
+  }
+
+  async listProviders(req: AuthenticatedRequest, res: Response): Promise<void> {
+    res.status(200).json({
+      success: true,
+      data: fraudConfigAdminService.getConfig().config.providers
+    } as ApiResponse<any>);
+  }
+
+  async createProvider(req: AuthenticatedRequest, res: Response): Promise<void> {
+    await this.applyChange(res, 201, 'Failed to create provider', () =>
+      fraudConfigAdminService.createProvider(req.body, req.clientId!)
+    );
+  }
+
+  async updateProvider(req: AuthenticatedRequest, res: Response): Promise<void> {
+    await this.applyChange(res, 200, 'Failed to update provider', () =>
+      fraudConfigAdminService.updateProvider(req.params.name, req.body, req.clientId!)
+    );
+  }
+
+  async setProviderEnabled(req: AuthenticatedRequest, res: Response): Promise<void> {
+    await this.applyChange(res, 200, 'Failed to update provider', () =>
+      fraudConfigAdminService.setProviderEnabled(req.params.name, req.body.enabled, req.clientId!)
+    );
+  }
+
+  async deleteProvider(req: AuthenticatedRequest, res: Response): Promise<void> {
+    await this.applyChange(res, 200, 'Failed to delete provider', () =>
+      fraudConfigAdminService.deleteProvider(req.params.name, req.clientId!)
+    );
+  }
+
+  async getThresholds(req: AuthenticatedRequest, res: Response): Promise<void> {
+    res.status(200).json({
+      success: true,
+      data: fraudConfigAdminService.getConfig().config.thresholds
+    } as ApiResponse<any>);
+  }
+
+  async updateThresholds(req: AuthenticatedRequest, res: Response): Promise<void> {
+    await this.applyChange(res, 200, 'Failed to update thresholds', () =>
+      fraudConfigAdminService.updateThresholds(req.body, req.clientId!)
+    );
+  }
+
+  async getScoring(req: AuthenticatedRequest, res: Response): Promise<void> {
+    res.status(200).json({
+      success: true,
+      data: fraudRuleConfigService.getScoring()
+    } as ApiResponse<any>);
+  }
+
+  async updateScoring(req: AuthenticatedRequest, res: Response): Promise<void> {
+    await this.applyChange(res, 200, 'Failed to update scoring', () =>
+      fraudConfigAdminService.updateScoring(req.body, req.clientId!)
+    );
+  }
+
+  async simulate(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const simulation = await ruleSimulationService.simulate(req.body);
+
+      res.status(200).json({
+        success: true,
+        data: simulation
+      } as ApiResponse<any>);
+
+    } catch (error) {
+      this.handleError(res, error, 'Rule simulation failed');
+    }
+  }
+
+  async invalidateRiskCache(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const generation = await riskCacheService.invalidate();
+      if (generation === null) {
+        throw new AppError('Risk assessment cache is unavailable', 503);
+      }
+
+      logger.info('Risk assessment cache invalidation requested', { clientId: req.clientId, generation });
+      res.status(200).json({
+        success: true,
+        data: { generation }
+      } as ApiResponse<any>);
+
+    } catch (error) {
+      this.handleError(res, error, 'Failed to invalidate risk assessment cache');
+    }
+  }
+
+  async getMetrics(req: AuthenticatedRequest, res: Response): Promise<void> {
+    res.status(200).json({
+      success: true,
+      data: metrics.snapshot()
+    } as ApiResponse<any>);
+  }
+
+  private async applyChange(
+    res: Response,
+    statusCode: number,
+    message: string,
+    change: () => Promise<FraudConfigVersion>
+  ): Promise<void> {
+    try {
+      const { version, changedBy, change: applied, createdAt } = await change();
+
+      res.status(statusCode).json({
+        success: true,
+        data: { version, changedBy, change: applied, createdAt }
+      } as ApiResponse<any>);
+
+    } catch (error) {
+      this.handleError(res, error, message);
+    }
+  }
+
+  private handleError(res: Response, error: unknown, message: string): void {
+    if (error instanceof AppError) {
+      res.status(error.statusCode).json({
+        success: false,
+        error: error.message
+      } as ApiResponse<never>);
+      return;
+    }
+
+    logger.error(message, { error: (error as Error).message });
+    res.status(500).json({
+      success: false,
+      error: message
+    } as ApiResponse<never>);
+  }
+}
+
+export const adminController = new AdminController();
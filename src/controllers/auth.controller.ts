@@ -2,6 +2,7 @@ import { Request, Response } from 'express';
 import { generateToken } from '../utils/jwt';
 import { logger } from '../utils/logger';
 import { ApiResponse } from '../types';
+import { getAdminClientCredentials } from '../middleware/auth.middleware';
 
 export class AuthController {
   async createToken(req: Request, res: Response): Promise<void> {
@@ -43,7 +44,13 @@ export class AuthController {
     const validClientId = process.env.CLIENT_ID;
     const validClientSecret = process.env.CLIENT_SECRET;
     
-    return clientId === validClientId && clientSecret === validClientSecret;
+    if (clientId === validClientId && clientSecret === validClientSecret) {
+      return true;
+    }
+
+    // Operator clients for the admin API
+    const adminSecret = getAdminClientCredentials().get(clientId);
+    return adminSecret !== undefined && clientSecret === adminSecret;
   }
 }
 
@@ -1,14 +1,20 @@
 import { Response } from 'express';
 import { AuthenticatedRequest } from '../middleware/auth.middleware';
-import { Transaction, TransactionStatus, PaymentRequest, PaymentResponse, ApiResponse } from '../types';
+import { Transaction, TransactionStatus, PaymentRequest, PaymentResponse, ApiResponse, Refund } from '../types';
 import { generateTransactionId } from '../utils/uuid';
 import { paymentService } from '../services/payment.service';
+import { deferredRiskService } from '../services/deferred-risk.service';
 import { logger } from '../utils/logger';
 import { eventPublisher, EVENTS } from '../utils/events';
 import { cacheService } from '../services/cache.service';
+import { transactionRepository } from '../repositories';
+import { TransactionRepository } from '../repositories/transaction.repository';
+import { AppError } from '../middleware/error.middleware';
+
+const MAX_UPDATE_ATTEMPTS = 3;
 
 export class PaymentController {
-  private transactions: Map<string, Transaction> = new Map();
+  constructor(private repository: TransactionRepository = transactionRepository) {}
 
   async processPayment(req: AuthenticatedRequest, res: Response): Promise<void> {
     try {
@@ -21,18 +27,16 @@ export class PaymentController {
         currency: paymentRequest.currency,
         source: paymentRequest.source,
         email: paymentRequest.email,
+        clientId: req.clientId,
+        intent: paymentRequest.intent || 'sale',
+        timezone: paymentRequest.timezone,
         status: TransactionStatus.PENDING,
         createdAt: new Date(),
         updatedAt: new Date()
       };
 
       // Store transaction
-      this.transactions.set(transactionId, transaction);
-      await cacheService.set(
-        cacheService.generateKey('transaction', transactionId),
-        transaction,
-        7200 // 2 hours
-      );
+      await this.persist(transaction);
 
       // Publish transaction created event
       eventPublisher.publish(EVENTS.TRANSACTION_CREATED, {
@@ -46,7 +50,8 @@ export class PaymentController {
       // Process payment with integrated risk assessment
       const processedTransaction = await paymentService.processTransaction(transaction);
       
-      this.transactions.set(transactionId, processedTransaction);
+      await this.persist(processedTransaction);
+      deferredRiskService.enqueue(processedTransaction);
 
       logger.info('Payment processed', {
         transactionId,
@@ -78,14 +83,7 @@ export class PaymentController {
     try {
       const { transactionId } = req.params;
 
-      let transaction = this.transactions.get(transactionId);
-      
-      if (!transaction) {
-        // Try to get from cache
-        transaction = await cacheService.get<Transaction>(
-          cacheService.generateKey('transaction', transactionId)
-        ) || undefined;
-      }
+      const transaction = await this.findTransaction(transactionId);
 
       if (!transaction) {
         res.status(404).json({
@@ -116,6 +114,195 @@ export class PaymentController {
     }
   }
 
+  async refundPayment(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { transactionId } = req.params;
+      const { amount, reason } = req.body;
+
+      // Refunds must see the latest refund history, so skip the cache
+      const transaction = await this.findOwnTransaction(req, transactionId);
+
+      if (!transaction) {
+        res.status(404).json({
+          success: false,
+          error: 'Transaction not found'
+        } as ApiResponse<never>);
+        return;
+      }
+
+      // Reserve the amount first; of two concurrent refunds only one can store its reservation
+      const expectedUpdatedAt = transaction.updatedAt;
+      const reserved = paymentService.reserveRefund(transaction, amount, reason, req.clientId);
+      if (!(await this.repository.saveIfUnchanged(transaction, expectedUpdatedAt))) {
+        throw new AppError('Transaction was changed by a concurrent request; retry the refund', 409);
+      }
+
+      let refund: Refund;
+      try {
+        refund = await paymentService.executeRefund(transaction, reserved);
+      } catch (error) {
+        await this.updateStored(transactionId, stored => paymentService.releaseRefund(stored, reserved.id));
+        throw error;
+      }
+
+      // Other refunds may have been reserved meanwhile, so settle on the latest copy
+      const refunded = await this.updateStored(transactionId, stored => paymentService.settleRefund(stored, refund));
+
+      res.status(201).json({
+        success: true,
+        data: {
+          transactionId: refunded.id,
+          refund,
+          status: refunded.status,
+          refundedAmount: paymentService.getRefundedAmount(refunded)
+        }
+      } as ApiResponse<any>);
+
+    } catch (error) {
+      this.handleOperationError(res, error, 'Refund processing failed');
+    }
+  }
+
+  async capturePayment(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { transactionId } = req.params;
+      const transaction = await this.findOwnTransaction(req, transactionId);
+
+      if (!transaction) {
+        res.status(404).json({
+          success: false,
+          error: 'Transaction not found'
+        } as ApiResponse<never>);
+        return;
+      }
+
+      const expectedUpdatedAt = transaction.updatedAt;
+      await paymentService.captureTransaction(transaction, req.body?.amount);
+      const captured = await this.saveOutcome(transaction, expectedUpdatedAt, stored =>
+        paymentService.applyCapture(stored, transaction.capturedAmount!, transaction.status)
+      );
+
+      res.status(200).json({
+        success: true,
+        data: {
+          transactionId: captured.id,
+          status: captured.status,
+          capturedAmount: captured.capturedAmount
+        }
+      } as ApiResponse<any>);
+
+    } catch (error) {
+      this.handleOperationError(res, error, 'Capture failed');
+    }
+  }
+
+  async voidPayment(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { transactionId } = req.params;
+      const transaction = await this.findOwnTransaction(req, transactionId);
+
+      if (!transaction) {
+        res.status(404).json({
+          success: false,
+          error: 'Transaction not found'
+        } as ApiResponse<never>);
+        return;
+      }
+
+      const expectedUpdatedAt = transaction.updatedAt;
+      await paymentService.voidTransaction(transaction);
+      const voided = await this.saveOutcome(transaction, expectedUpdatedAt, stored => paymentService.applyVoid(stored));
+
+      res.status(200).json({
+        success: true,
+        data: {
+          transactionId: voided.id,
+          status: voided.status
+        }
+      } as ApiResponse<any>);
+
+    } catch (error) {
+      this.handleOperationError(res, error, 'Void failed');
+    }
+  }
+
+  private handleOperationError(res: Response, error: unknown, message: string): void {
+    if (error instanceof AppError) {
+      res.status(error.statusCode).json({
+        success: false,
+        error: error.message
+      } as ApiResponse<never>);
+      return;
+    }
+
+    logger.error(message, { error: (error as Error).message });
+    res.status(500).json({
+      success: false,
+      error: message
+    } as ApiResponse<never>);
+  }
+
+  private async findTransaction(transactionId: string): Promise<Transaction | null> {
+    // Try the cache first, then fall back to the durable store
+    const cached = await cacheService.get<Transaction>(
+      cacheService.generateKey('transaction', transactionId)
+    );
+
+    return cached || this.repository.findById(transactionId);
+  }
+
+  // Another client's transaction is reported as missing rather than forbidden
+  private async findOwnTransaction(req: AuthenticatedRequest, transactionId: string): Promise<Transaction | null> {
+    const transaction = await this.repository.findById(transactionId);
+    return transaction && transaction.clientId === req.clientId ? transaction : null;
+  }
+
+  // Saves a provider outcome unless the transaction changed meanwhile; then it is applied to the latest copy instead
+  private async saveOutcome(
+    transaction: Transaction,
+    expectedUpdatedAt: Date,
+    reapply: (stored: Transaction) => void
+  ): Promise<Transaction> {
+    if (await this.repository.saveIfUnchanged(transaction, expectedUpdatedAt)) {
+      await this.cacheTransaction(transaction);
+      return transaction;
+    }
+    return this.updateStored(transaction.id, reapply);
+  }
+
+  // Applies a change to the stored transaction, re-reading it when another request saved first
+  private async updateStored(transactionId: string, change: (transaction: Transaction) => void): Promise<Transaction> {
+    for (let attempt = 1; attempt <= MAX_UPDATE_ATTEMPTS; attempt++) {
+      const transaction = await this.repository.findById(transactionId);
+      if (!transaction) {
+        throw new AppError('Transaction not found', 404);
+      }
+
+      const expectedUpdatedAt = transaction.updatedAt;
+      change(transaction);
+      if (await this.repository.saveIfUnchanged(transaction, expectedUpdatedAt)) {
+        await this.cacheTransaction(transaction);
+        return transaction;
+      }
+    }
+
+    logger.error('Could not store transaction update after concurrent changes', { transactionId });
+    throw new AppError('Transaction was changed by concurrent requests; check its status before retrying', 409);
+  }
+
+  private async persist(transaction: Transaction): Promise<void> {
+    await this.repository.save(transaction);
+    await this.cacheTransaction(transaction);
+  }
+
+  private async cacheTransaction(transaction: Transaction): Promise<void> {
+    await cacheService.set(
+      cacheService.generateKey('transaction', transaction.id),
+      transaction,
+      7200 // 2 hours
+    );
+  }
+
 }
 
 export const paymentController = new PaymentController();
@@ -0,0 +1,86 @@
+import { Response } from 'express';
+import { AuthenticatedRequest } from '../middleware/auth.middleware';
+import { AppError } from '../middleware/error.middleware';
+import { ApiResponse, Transaction } from '../types';
+import { reviewService } from '../services/review.service';
+import { logger } from '../utils/logger';
+
+export class ReviewController {
+  async listPending(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const limit = Math.min(parseInt(String(req.query.limit || '100')) || 100, 500);
+      const pending = await reviewService.listPending(limit);
+
+      res.status(200).json({
+        success: true,
+        data: pending.map(transaction => ({
+          transactionId: transaction.id,
+          amount: transaction.amount,
+          currency: transaction.currency,
+          email: transaction.email,
+          riskScore: transaction.riskScore,
+          riskFactors: transaction.riskFactors || [],
+          explanation: transaction.explanation,
+          triggeredBy: transaction.review?.triggeredBy || [],
+          queuedAt: transaction.review?.queuedAt,
+          createdAt: transaction.createdAt
+        }))
+      } as ApiResponse<any>);
+
+    } catch (error) {
+      logger.error('Failed to list review queue', { error: (error as Error).message });
+      res.status(500).json({
+        success: false,
+        error: 'Failed to retrieve review queue'
+      } as ApiResponse<never>);
+    }
+  }
+
+  async approve(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const transaction = await reviewService.approve(req.params.transactionId, req.clientId!, req.body.reason);
+      res.status(200).json(this.toDecisionResponse(transaction));
+    } catch (error) {
+      this.handleError(res, error, 'Failed to approve transaction');
+    }
+  }
+
+  async decline(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const transaction = await reviewService.decline(req.params.transactionId, req.clientId!, req.body.reason);
+      res.status(200).json(this.toDecisionResponse(transaction));
+    } catch (error) {
+      this.handleError(res, error, 'Failed to decline transaction');
+    }
+  }
+
+  private toDecisionResponse(transaction: Transaction): ApiResponse<any> {
+    return {
+      success: true,
+      data: {
+        transactionId: transaction.id,
+        status: transaction.status,
+        provider: transaction.provider,
+        review: transaction.review
+      }
+    };
+  }
+
+  private handleError(res: Response, error: unknown, message: string): void {
+    if (error instanceof AppError) {
+      res.status(error.statusCode).json({
+        success: false,
+        error: error.message
+      } as ApiResponse<never>);
+      return;
+    }
+
+    logger.error(message, { error: (error as Error).message });
+    res.status(500).json({
+      success: false,
+      error: message
+    } as ApiResponse<never>);
+  }
+}
+
+export const reviewController = new ReviewController();
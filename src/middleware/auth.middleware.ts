@@ -35,3 +35,33 @@ export const authenticate = (
     });
   }
 };
+
+const parseList = (value: string | undefined): string[] =>
+  (value || '').split(',').map(entry => entry.trim()).filter(entry => entry.length > 0);
+
+// ADMIN_CLIENT_CREDENTIALS holds clientId:secret pairs for operator clients, separate from CLIENT_ID
+export const getAdminClientCredentials = (): Map<string, string> =>
+  new Map(parseList(process.env.ADMIN_CLIENT_CREDENTIALS)
+    .filter(entry => entry.indexOf(':') > 0)
+    .map(entry => [entry.slice(0, entry.indexOf(':')), entry.slice(entry.indexOf(':') + 1)] as [string, string]));
+
+// Operator clients, plus any other clients granted admin through ADMIN_CLIENT_IDS
+export const isAdminClient = (clientId: string | undefined): boolean =>
+  !!clientId && (getAdminClientCredentials().has(clientId) || parseList(process.env.ADMIN_CLIENT_IDS).includes(clientId));
+
+export const requireAdmin = (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): void => {
+  if (!isAdminClient(req.clientId)) {
+    logger.warn('Admin access denied', { clientId: req.clientId });
+    res.status(403).json({
+      success: false,
+      error: 'Admin access required'
+    });
+    return;
+  }
+
+  next();
+};
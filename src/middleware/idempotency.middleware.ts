@@ -0,0 +1,125 @@
+import { Response, NextFunction } from 'express';
+import { createHash } from 'crypto';
+import { AuthenticatedRequest } from './auth.middleware';
+import { cacheService } from '../services/cache.service';
+import { logger } from '../utils/logger';
+
+const IDEMPOTENCY_HEADER = 'idempotency-key';
+const IDEMPOTENCY_TTL = parseInt(process.env.IDEMPOTENCY_TTL_SECONDS || '86400');
+// Refreshed while the request runs, so it only has to outlive a crashed instance, not a slow payment
+const IN_FLIGHT_TTL = parseInt(process.env.IDEMPOTENCY_LOCK_TTL_SECONDS || '120');
+
+interface IdempotencyRecord {
+  state: 'in_flight' | 'completed';
+  fingerprint: string;
+  statusCode?: number;
+  body?: any;
+}
+
+const fingerprintBody = (body: any): string => {
+  const sorted = Object.keys(body || {}).sort().reduce((acc, key) => {
+    acc[key] = body[key];
+    return acc;
+  }, {} as Record<string, any>);
+  return createHash('sha256').update(JSON.stringify(sorted)).digest('hex');
+};
+
+/**
+ * Replays the first response for a repeated Idempotency-Key so client retries
+ * never create a second transaction. Keys are scoped to the authenticated client.
+ */
+export const idempotency = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  const idempotencyKey = req.header(IDEMPOTENCY_HEADER);
+
+  if (!idempotencyKey) {
+    next();
+    return;
+  }
+
+  if (idempotencyKey.length > 255) {
+    res.status(400).json({
+      success: false,
+      error: 'Idempotency-Key cannot exceed 255 characters'
+    });
+    return;
+  }
+
+  try {
+    const key = cacheService.generateKey('idempotency', req.clientId || 'anonymous', idempotencyKey);
+    const fingerprint = fingerprintBody(req.body);
+
+    const acquired = await cacheService.setIfNotExists(
+      key,
+      { state: 'in_flight', fingerprint } as IdempotencyRecord,
+      IN_FLIGHT_TTL
+    );
+
+    if (!acquired) {
+      const record = await cacheService.get<IdempotencyRecord>(key);
+
+      if (!record) {
+        // Cache unavailable; process the request without replay protection
+        logger.warn('Idempotency store unavailable, processing without replay protection', { idempotencyKey });
+        next();
+        return;
+      }
+
+      if (record.fingerprint !== fingerprint) {
+        res.status(422).json({
+          success: false,
+          error: 'Idempotency-Key was already used with a different request payload'
+        });
+        return;
+      }
+
+      if (record.state === 'in_flight') {
+        res.status(409).json({
+          success: false,
+          error: 'A request with this Idempotency-Key is still being processed'
+        });
+        return;
+      }
+
+      logger.info('Replaying idempotent response', { clientId: req.clientId, idempotencyKey });
+      res.setHeader('Idempotent-Replayed', 'true');
+      res.status(record.statusCode || 200).json(record.body);
+      return;
+    }
+
+    // Risk assessment retries and provider failover can take longer than the lock TTL
+    const refresh = setInterval(() => {
+      cacheService.expire(key, IN_FLIGHT_TTL).catch(() => undefined);
+    }, Math.max(1, IN_FLIGHT_TTL / 3) * 1000);
+    refresh.unref();
+    const stopRefreshing = () => clearInterval(refresh);
+    res.once('close', stopRefreshing);
+
+    const originalJson = res.json.bind(res);
+    res.json = (body: any) => {
+      stopRefreshing();
+      if (res.statusCode >= 500) {
+        // Let the client retry server failures with the same key
+        cacheService.del(key);
+      } else {
+        cacheService.set(
+          key,
+          { state: 'completed', fingerprint, statusCode: res.statusCode, body } as IdempotencyRecord,
+          IDEMPOTENCY_TTL
+        );
+      }
+      return originalJson(body);
+    };
+
+    next();
+  } catch (error) {
+    logger.error('Idempotency middleware error', error);
+    res.status(500).json({
+      success: false,
+      error: 'Internal idempotency error'
+    });
+  }
+};
@@ -0,0 +1,36 @@
+import { Transaction } from '../types';
+
+export type ProviderResultStatus = 'approved' | 'declined' | 'pending';
+
+export interface ProviderResult {
+  provider: string;
+  reference: string;
+  status: ProviderResultStatus;
+  amount: number;
+  message?: string;
+}
+
+export interface PaymentProvider {
+  readonly name: string;
+  authorize(transaction: Transaction): Promise<ProviderResult>;
+  capture(transaction: Transaction, amount?: number): Promise<ProviderResult>;
+  void(transaction: Transaction): Promise<ProviderResult>;
+  refund(transaction: Transaction, amount: number): Promise<ProviderResult>;
+  getStatus(transaction: Transaction): Promise<ProviderResult>;
+}
+
+/**
+ * A failed provider call. retryable is false when the same request would
+ * fail again anywhere (a rejected source, an unknown reference), so it
+ * neither trips the provider's circuit breaker nor fails over.
+ */
+export class ProviderError extends Error {
+  constructor(
+    message: string,
+    public provider: string,
+    public retryable: boolean = true
+  ) {
+    super(message);
+    this.name = 'ProviderError';
+  }
+}
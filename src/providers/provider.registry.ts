@@ -0,0 +1,55 @@
+import { ProviderConfig } from '../types';
+import { logger } from '../utils/logger';
+import { fraudRuleConfigService } from '../config/fraud-rules';
+import { PaymentProvider, ProviderError } from './payment-provider';
+import { SandboxProvider } from './sandbox.provider';
+
+export type ProviderFactory = (config: ProviderConfig) => PaymentProvider;
+
+const DEFAULT_ADAPTER = process.env.PAYMENT_PROVIDER_ADAPTER || 'sandbox';
+
+export class ProviderRegistry {
+  private factories: Map<string, ProviderFactory> = new Map();
+  private instances: Map<string, PaymentProvider> = new Map();
+
+  constructor() {
+    this.registerAdapter('sandbox', (config) => new SandboxProvider(config.name));
+  }
+
+  registerAdapter(adapter: string, factory: ProviderFactory): void {
+    this.factories.set(adapter, factory);
+    logger.info(`Payment provider adapter registered: ${adapter}`);
+  }
+
+  register(provider: PaymentProvider): void {
+    this.instances.set(provider.name, provider);
+  }
+
+  getProvider(name: string): PaymentProvider {
+    const existing = this.instances.get(name);
+    if (existing) {
+      return existing;
+    }
+
+    const config = fraudRuleConfigService.getProviders().find(provider => provider.name === name);
+    if (!config) {
+      throw new ProviderError(`Provider ${name} is not configured or disabled`, name, false);
+    }
+
+    const adapter = config.adapter || DEFAULT_ADAPTER;
+    const factory = this.factories.get(adapter);
+    if (!factory) {
+      throw new ProviderError(`No adapter registered for ${adapter}`, name, false);
+    }
+
+    const provider = factory(config);
+    this.instances.set(name, provider);
+    return provider;
+  }
+
+  reset(): void {
+    this.instances.clear();
+  }
+}
+
+export const providerRegistry = new ProviderRegistry();
@@ -0,0 +1,126 @@
+import { v4 as uuidv4 } from 'uuid';
+import { Transaction } from '../types';
+import { logger } from '../utils/logger';
+import { PaymentProvider, ProviderError, ProviderResult, ProviderResultStatus } from './payment-provider';
+
+// Source token prefixes that trigger deterministic sandbox outcomes
+export const SANDBOX_TOKENS = {
+  DECLINE: 'tok_decline',
+  PENDING: 'tok_pending',
+  ERROR: 'tok_error'
+};
+
+interface SandboxPayment {
+  authorized: number;
+  captured: number;
+  refunded: number;
+  voided: boolean;
+  status: ProviderResultStatus;
+}
+
+/**
+ * Local stub provider that keeps payments in memory so the full
+ * authorize/capture/refund flow can run without network access.
+ */
+export class SandboxProvider implements PaymentProvider {
+  private payments: Map<string, SandboxPayment> = new Map();
+
+  constructor(
+    public readonly name: string,
+    private latencyMs: number = parseInt(process.env.SANDBOX_PROVIDER_LATENCY_MS || '0')
+  ) {}
+
+  async authorize(transaction: Transaction): Promise<ProviderResult> {
+    await this.simulateLatency();
+
+    if (transaction.source.startsWith(SANDBOX_TOKENS.ERROR)) {
+      throw new ProviderError(`Sandbox provider ${this.name} unavailable`, this.name);
+    }
+
+    const reference = `sbx_${uuidv4()}`;
+    let status: ProviderResultStatus = 'approved';
+    if (transaction.source.startsWith(SANDBOX_TOKENS.DECLINE)) {
+      status = 'declined';
+    } else if (transaction.source.startsWith(SANDBOX_TOKENS.PENDING)) {
+      status = 'pending';
+    }
+
+    this.payments.set(reference, {
+      authorized: status === 'declined' ? 0 : transaction.amount,
+      captured: 0,
+      refunded: 0,
+      voided: false,
+      status
+    });
+
+    logger.debug('Sandbox authorization', { provider: this.name, reference, status });
+
+    return this.result(reference, status, transaction.amount, status === 'declined' ? 'Card declined' : undefined);
+  }
+
+  async capture(transaction: Transaction, amount?: number): Promise<ProviderResult> {
+    await this.simulateLatency();
+    const { reference, payment } = this.getPayment(transaction);
+    const captureAmount = amount ?? payment.authorized - payment.captured;
+
+    if (payment.voided || payment.status !== 'approved') {
+      return this.result(reference, 'declined', captureAmount, 'Authorization is not capturable');
+    }
+    if (captureAmount <= 0 || payment.captured + captureAmount > payment.authorized) {
+      return this.result(reference, 'declined', captureAmount, 'Capture amount exceeds authorized amount');
+    }
+
+    payment.captured += captureAmount;
+    return this.result(reference, 'approved', captureAmount);
+  }
+
+  async void(transaction: Transaction): Promise<ProviderResult> {
+    await this.simulateLatency();
+    const { reference, payment } = this.getPayment(transaction);
+
+    if (payment.captured > 0) {
+      return this.result(reference, 'declined', 0, 'Captured payments cannot be voided');
+    }
+
+    payment.voided = true;
+    return this.result(reference, 'approved', payment.authorized);
+  }
+
+  async refund(transaction: Transaction, amount: number): Promise<ProviderResult> {
+    await this.simulateLatency();
+    const { reference, payment } = this.getPayment(transaction);
+
+    if (amount <= 0 || payment.refunded + amount > payment.captured) {
+      return this.result(reference, 'declined', amount, 'Refund amount exceeds captured amount');
+    }
+
+    payment.refunded += amount;
+    return this.result(reference, 'approved', amount);
+  }
+
+  async getStatus(transaction: Transaction): Promise<ProviderResult> {
+    const { reference, payment } = this.getPayment(transaction);
+    return this.result(reference, payment.status, payment.captured - payment.refunded);
+  }
+
+  private getPayment(transaction: Transaction): { reference: string; payment: SandboxPayment } {
+    const reference = transaction.providerReference;
+    const payment = reference ? this.payments.get(reference) : undefined;
+
+    if (!reference || !payment) {
+      throw new ProviderError(`Unknown payment reference for transaction ${transaction.id}`, this.name, false);
+    }
+
+    return { reference, payment };
+  }
+
+  private result(reference: string, status: ProviderResultStatus, amount: number, message?: string): ProviderResult {
+    return { provider: this.name, reference, status, amount, message };
+  }
+
+  private async simulateLatency(): Promise<void> {
+    if (this.latencyMs > 0) {
+      await new Promise(resolve => setTimeout(resolve, this.latencyMs));
+    }
+  }
+}
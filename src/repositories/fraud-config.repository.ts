@@ -0,0 +1,20 @@
+import { FraudConfigVersion } from '../types';
+
+export class VersionConflictError extends Error {
+  constructor(public version: number) {
+    super(`Fraud config version ${version} already exists`);
+    this.name = 'VersionConflictError';
+  }
+}
+
+/**
+ * Append-only history of fraud rule configurations. Every version keeps the
+ * full configuration together with who changed it and what changed, so the
+ * history doubles as the audit trail.
+ */
+export interface FraudConfigRepository {
+  getLatest(): Promise<FraudConfigVersion | null>;
+  // Throws VersionConflictError when the version number is already taken
+  saveVersion(version: FraudConfigVersion): Promise<void>;
+  listVersions(limit?: number): Promise<FraudConfigVersion[]>;
+}
@@ -0,0 +1,30 @@
+import { FraudConfigVersion } from '../types';
+import { reviveDates } from './transaction.repository';
+import { FraudConfigRepository, VersionConflictError } from './fraud-config.repository';
+
+export class InMemoryFraudConfigRepository implements FraudConfigRepository {
+  private versions: Map<number, string> = new Map();
+
+  async getLatest(): Promise<FraudConfigVersion | null> {
+    const [latest] = await this.listVersions(1);
+    return latest || null;
+  }
+
+  async saveVersion(version: FraudConfigVersion): Promise<void> {
+    if (this.versions.has(version.version)) {
+      throw new VersionConflictError(version.version);
+    }
+    this.versions.set(version.version, JSON.stringify(version));
+  }
+
+  async listVersions(limit: number = 50): Promise<FraudConfigVersion[]> {
+    return Array.from(this.versions.values())
+      .map(data => reviveDates(JSON.parse(data) as FraudConfigVersion))
+      .sort((a, b) => b.version - a.version)
+      .slice(0, limit);
+  }
+
+  clear(): void {
+    this.versions.clear();
+  }
+}
@@ -0,0 +1,47 @@
+import { Transaction, TransactionStatus } from '../types';
+import { TransactionRepository, reviveDates } from './transaction.repository';
+
+export class InMemoryTransactionRepository implements TransactionRepository {
+  private transactions: Map<string, string> = new Map();
+
+  async save(transaction: Transaction): Promise<void> {
+    // Store a serialized copy so callers can't mutate persisted state by reference
+    this.transactions.set(transaction.id, JSON.stringify(transaction));
+  }
+
+  async saveIfUnchanged(transaction: Transaction, expectedUpdatedAt: Date): Promise<boolean> {
+    // Check and write without yielding so concurrent callers can't both pass
+    const data = this.transactions.get(transaction.id);
+    const stored = data ? reviveDates(JSON.parse(data) as Transaction) : null;
+    if (!stored || stored.updatedAt.getTime() !== expectedUpdatedAt.getTime()) {
+      return false;
+    }
+    this.transactions.set(transaction.id, JSON.stringify(transaction));
+    return true;
+  }
+
+  async findById(id: string): Promise<Transaction | null> {
+    const data = this.transactions.get(id);
+    return data ? reviveDates(JSON.parse(data) as Transaction) : null;
+  }
+
+  async findByStatus(status: TransactionStatus, limit: number = 100): Promise<Transaction[]> {
+    return Array.from(this.transactions.values())
+      .map(data => reviveDates(JSON.parse(data) as Transaction))
+      .filter(transaction => transaction.status === status)
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime())
+      .slice(0, limit);
+  }
+
+  async findAwaitingReview(limit: number = 100): Promise<Transaction[]> {
+    return Array.from(this.transactions.values())
+      .map(data => reviveDates(JSON.parse(data) as Transaction))
+      .filter(transaction => transaction.status === TransactionStatus.PENDING && transaction.review?.status === 'pending')
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime())
+      .slice(0, limit);
+  }
+
+  clear(): void {
+    this.transactions.clear();
+  }
+}
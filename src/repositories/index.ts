@@ -0,0 +1,33 @@
+import { logger } from '../utils/logger';
+import { getDatabaseClient } from '../config/database';
+import { TransactionRepository } from './transaction.repository';
+import { InMemoryTransactionRepository } from './in-memory-transaction.repository';
+import { PostgresTransactionRepository } from './postgres-transaction.repository';
+import { FraudConfigRepository } from './fraud-config.repository';
+import { InMemoryFraudConfigRepository } from './in-memory-fraud-config.repository';
+import { PostgresFraudConfigRepository } from './postgres-fraud-config.repository';
+
+const usePostgres = (): boolean =>
+  (process.env.TRANSACTION_STORE || (process.env.DATABASE_URL ? 'postgres' : 'memory')) === 'postgres';
+
+const createTransactionRepository = (): TransactionRepository => {
+  if (usePostgres()) {
+    logger.info('Using Postgres transaction store');
+    return new PostgresTransactionRepository(getDatabaseClient().getPool());
+  }
+
+  logger.warn('Using in-memory transaction store; transactions will not survive a restart');
+  return new InMemoryTransactionRepository();
+};
+
+const createFraudConfigRepository = (): FraudConfigRepository => {
+  if (usePostgres()) {
+    return new PostgresFraudConfigRepository(getDatabaseClient().getPool());
+  }
+
+  logger.warn('Using in-memory fraud config store; admin changes will not survive a restart');
+  return new InMemoryFraudConfigRepository();
+};
+
+export const transactionRepository = createTransactionRepository();
+export const fraudConfigRepository = createFraudConfigRepository();
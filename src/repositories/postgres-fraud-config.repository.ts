@@ -0,0 +1,77 @@
+import { Pool } from 'pg';
+import { FraudConfigVersion } from '../types';
+import { logger } from '../utils/logger';
+import { reviveDates } from './transaction.repository';
+import { FraudConfigRepository, VersionConflictError } from './fraud-config.repository';
+
+const UNIQUE_VIOLATION = '23505';
+
+export class PostgresFraudConfigRepository implements FraudConfigRepository {
+  private ready?: Promise<void>;
+
+  constructor(private pool: Pool) {}
+
+  async getLatest(): Promise<FraudConfigVersion | null> {
+    const [latest] = await this.listVersions(1);
+    return latest || null;
+  }
+
+  async saveVersion(version: FraudConfigVersion): Promise<void> {
+    await this.ensureSchema();
+    try {
+      await this.pool.query(
+        `INSERT INTO fraud_config_versions (version, config, changed_by, change, created_at)
+         VALUES ($1, $2, $3, $4, $5)`,
+        [
+          version.version,
+          JSON.stringify(version.config),
+          version.changedBy,
+          JSON.stringify(version.change),
+          version.createdAt
+        ]
+      );
+    } catch (error) {
+      if ((error as { code?: string }).code === UNIQUE_VIOLATION) {
+        throw new VersionConflictError(version.version);
+      }
+      throw error;
+    }
+  }
+
+  async listVersions(limit: number = 50): Promise<FraudConfigVersion[]> {
+    await this.ensureSchema();
+    const result = await this.pool.query(
+      `SELECT version, config, changed_by, change, created_at
+       FROM fraud_config_versions ORDER BY version DESC LIMIT $1`,
+      [limit]
+    );
+    return result.rows.map(row => ({
+      version: row.version,
+      config: row.config,
+      changedBy: row.changed_by,
+      change: reviveDates(row.change),
+      createdAt: row.created_at
+    }));
+  }
+
+  private ensureSchema(): Promise<void> {
+    if (!this.ready) {
+      this.ready = this.pool.query(`
+        CREATE TABLE IF NOT EXISTS fraud_config_versions (
+          version INTEGER PRIMARY KEY,
+          config JSONB NOT NULL,
+          changed_by TEXT NOT NULL,
+          change JSONB NOT NULL,
+          created_at TIMESTAMPTZ NOT NULL
+        );
+      `).then(() => {
+        logger.info('Fraud config store schema ready');
+      }).catch((error) => {
+        // Allow the next call to retry schema creation
+        this.ready = undefined;
+        throw error;
+      });
+    }
+    return this.ready;
+  }
+}
@@ -0,0 +1,94 @@
+import { Pool } from 'pg';
+import { Transaction, TransactionStatus } from '../types';
+import { logger } from '../utils/logger';
+import { TransactionRepository, reviveDates } from './transaction.repository';
+
+export class PostgresTransactionRepository implements TransactionRepository {
+  private ready?: Promise<void>;
+
+  constructor(private pool: Pool) {}
+
+  async save(transaction: Transaction): Promise<void> {
+    await this.ensureSchema();
+    await this.pool.query(
+      `INSERT INTO transactions (id, status, email, data, created_at, updated_at)
+       VALUES ($1, $2, $3, $4, $5, $6)
+       ON CONFLICT (id) DO UPDATE
+       SET status = EXCLUDED.status, data = EXCLUDED.data, updated_at = EXCLUDED.updated_at`,
+      [
+        transaction.id,
+        transaction.status,
+        transaction.email,
+        JSON.stringify(transaction),
+        transaction.createdAt,
+        transaction.updatedAt
+      ]
+    );
+  }
+
+  async saveIfUnchanged(transaction: Transaction, expectedUpdatedAt: Date): Promise<boolean> {
+    await this.ensureSchema();
+    const result = await this.pool.query(
+      `UPDATE transactions
+       SET status = $2, data = $3, updated_at = $4
+       WHERE id = $1 AND updated_at = $5`,
+      [
+        transaction.id,
+        transaction.status,
+        JSON.stringify(transaction),
+        transaction.updatedAt,
+        expectedUpdatedAt
+      ]
+    );
+    return result.rowCount === 1;
+  }
+
+  async findById(id: string): Promise<Transaction | null> {
+    await this.ensureSchema();
+    const result = await this.pool.query('SELECT data FROM transactions WHERE id = $1', [id]);
+    return result.rows.length > 0 ? reviveDates(result.rows[0].data as Transaction) : null;
+  }
+
+  async findByStatus(status: TransactionStatus, limit: number = 100): Promise<Transaction[]> {
+    await this.ensureSchema();
+    const result = await this.pool.query(
+      'SELECT data FROM transactions WHERE status = $1 ORDER BY created_at LIMIT $2',
+      [status, limit]
+    );
+    return result.rows.map(row => reviveDates(row.data as Transaction));
+  }
+
+  async findAwaitingReview(limit: number = 100): Promise<Transaction[]> {
+    await this.ensureSchema();
+    const result = await this.pool.query(
+      `SELECT data FROM transactions
+       WHERE status = $1 AND data->'review'->>'status' = 'pending'
+       ORDER BY created_at LIMIT $2`,
+      [TransactionStatus.PENDING, limit]
+    );
+    return result.rows.map(row => reviveDates(row.data as Transaction));
+  }
+
+  private ensureSchema(): Promise<void> {
+    if (!this.ready) {
+      this.ready = this.pool.query(`
+        CREATE TABLE IF NOT EXISTS transactions (
+          id TEXT PRIMARY KEY,
+          status TEXT NOT NULL,
+          email TEXT NOT NULL,
+          data JSONB NOT NULL,
+          created_at TIMESTAMPTZ NOT NULL,
+          updated_at TIMESTAMPTZ NOT NULL
+        );
+        CREATE INDEX IF NOT EXISTS transactions_status_idx ON transactions (status);
+      `).then(() => {
+        logger.info('Transaction store schema ready');
+      }).catch((error) => {
+        // Allow the next call to retry schema creation
+        this.ready = undefined;
+        throw error;
+      });
+    }
+    return this.ready;
+  }
+}
@@ -0,0 +1,33 @@
+import { Transaction, TransactionStatus } from '../types';
+
+export interface TransactionRepository {
+  save(transaction: Transaction): Promise<void>;
+  // Saves only if the stored copy still has the given updatedAt; false when someone else changed it first
+  saveIfUnchanged(transaction: Transaction, expectedUpdatedAt: Date): Promise<boolean>;
+  findById(id: string): Promise<Transaction | null>;
+  findByStatus(status: TransactionStatus, limit?: number): Promise<Transaction[]>;
+  // Held transactions whose review nobody has claimed yet, oldest first
+  findAwaitingReview(limit?: number): Promise<Transaction[]>;
+}
+
+// Later than the updatedAt a change was based on, even within the same millisecond, so saveIfUnchanged never matches a stale copy
+export const nextUpdatedAt = (previous: Date): Date => new Date(Math.max(Date.now(), previous.getTime() + 1));
+
+// Restores Date fields (createdAt, attemptedAt, ...) after a JSON round trip
+export const reviveDates = <T>(value: T): T => {
+  if (Array.isArray(value)) {
+    return value.map(item => reviveDates(item)) as unknown as T;
+  }
+
+  if (value && typeof value === 'object' && !(value instanceof Date)) {
+    const revived: Record<string, any> = {};
+    for (const [key, field] of Object.entries(value)) {
+      revived[key] = key.endsWith('At') && typeof field === 'string'
+        ? new Date(field)
+        : reviveDates(field);
+    }
+    return revived as T;
+  }
+
+  return value;
+};
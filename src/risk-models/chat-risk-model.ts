@@ -0,0 +1,117 @@
+import { PromptTemplate, RiskAssessment, Transaction } from '../types';
+import { logger } from '../utils/logger';
+import { metrics, METRICS } from '../utils/metrics';
+import { riskModelResponseSchema } from '../schemas/risk-model.schemas';
+import { InvalidRiskResponseError, RiskModelProvider, RiskModelSettings } from './risk-model-provider';
+import { promptTemplateService } from '../config/prompt-templates';
+import { renderPrompt } from './prompt';
+import { extractJson, repairJson } from './json-repair';
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+type ResponseOutcome = 'valid' | 'repaired' | 'corrected' | 'invalid';
+
+/**
+ * Shared prompt and response handling for chat-style LLM backends; subclasses
+ * only implement the HTTP call. Responses are validated against a strict
+ * schema; near-JSON is repaired, and an invalid answer gets one corrective
+ * follow-up (RISK_MODEL_CORRECTIVE_RETRIES) before the call fails. The
+ * prompt comes from the template selected for this backend and model.
+ */
+export abstract class ChatRiskModel implements RiskModelProvider {
+  abstract readonly name: string;
+  abstract readonly settings: RiskModelSettings;
+  readonly model?: string;
+  protected correctiveRetries = parseInt(process.env.RISK_MODEL_CORRECTIVE_RETRIES || '1');
+
+  protected abstract complete(messages: ChatMessage[], transaction: Transaction): Promise<string>;
+
+  async assess(transaction: Transaction): Promise<RiskAssessment> {
+    const template = promptTemplateService.select(this.name, this.model, transaction);
+    const messages: ChatMessage[] = [
+      { role: 'system', content: renderPrompt(template.system, transaction) },
+      { role: 'user', content: renderPrompt(template.user, transaction) }
+    ];
+
+    for (let attempt = 0; ; attempt++) {
+      const content = await this.complete(messages, transaction);
+
+      try {
+        const { assessment, repaired } = this.parseResponse(content, transaction, template);
+        this.recordOutcome(attempt > 0 ? 'corrected' : repaired ? 'repaired' : 'valid');
+        return assessment;
+      } catch (error) {
+        if (!(error instanceof InvalidRiskResponseError) || attempt >= this.correctiveRetries) {
+          this.recordOutcome('invalid');
+          throw error;
+        }
+
+        logger.warn('Risk model response failed validation, asking for a corrected answer', {
+          provider: this.name,
+          transactionId: transaction.id,
+          errors: error.errors
+        });
+        messages.push(
+          { role: 'assistant', content },
+          { role: 'user', content: this.buildCorrectivePrompt(error.errors) }
+        );
+      }
+    }
+  }
+
+  protected parseResponse(content: string, transaction: Transaction, template: PromptTemplate): {
+    assessment: RiskAssessment;
+    repaired: boolean;
+  } {
+    const candidate = extractJson(content);
+    let parsed: unknown;
+    let repaired = false;
+
+    try {
+      parsed = JSON.parse(candidate);
+    } catch {
+      try {
+        parsed = JSON.parse(repairJson(candidate));
+        repaired = true;
+      } catch (error) {
+        logger.error('Failed to parse risk model response', { provider: this.name, content });
+        throw new InvalidRiskResponseError(this.name, [`response is not valid JSON: ${(error as Error).message}`]);
+      }
+    }
+
+    const { error, value } = riskModelResponseSchema.validate(parsed, {
+      abortEarly: false,
+      stripUnknown: true
+    });
+    if (error) {
+      throw new InvalidRiskResponseError(this.name, error.details.map(detail => detail.message));
+    }
+
+    return {
+      assessment: {
+        transactionId: transaction.id,
+        ...value,
+        promptVersion: template.version,
+        assessedAt: new Date()
+      },
+      repaired
+    };
+  }
+
+  private buildCorrectivePrompt(errors: string[]): string {
+    return [
+      'Your previous answer could not be used:',
+      ...errors.map(error => `- ${error}`),
+      'Reply again with only a JSON object with riskScore (number 0 to 1), riskLevel (LOW, MEDIUM, HIGH or CRITICAL),',
+      'explanation (string), factors (array of {factor, weight 0 to 1, description}) and recommendations (array of strings).',
+      'Do not add any other text.'
+    ].join('\n');
+  }
+
+  private recordOutcome(outcome: ResponseOutcome): void {
+    metrics.increment(METRICS.RISK_MODEL_RESPONSES, { provider: this.name, outcome });
+  }
+}
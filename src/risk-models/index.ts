@@ -0,0 +1,30 @@
+import { logger } from '../utils/logger';
+import { RiskModelProvider } from './risk-model-provider';
+import { OpenAICompatibleRiskModel } from './openai-compatible.model';
+import { OllamaRiskModel } from './ollama.model';
+import { HeuristicRiskModel } from './heuristic.model';
+
+const RISK_MODELS: Record<string, () => RiskModelProvider> = {
+  openai: () => new OpenAICompatibleRiskModel(),
+  ollama: () => new OllamaRiskModel(),
+  heuristic: () => new HeuristicRiskModel()
+};
+
+export const createRiskModelProvider = (name: string = process.env.RISK_MODEL_PROVIDER || 'openai'): RiskModelProvider => {
+  const factory = RISK_MODELS[name];
+  if (!factory) {
+    logger.error('Unknown risk model provider, using the OpenAI-compatible backend', {
+      provider: name,
+      available: Object.keys(RISK_MODELS)
+    });
+    return RISK_MODELS.openai();
+  }
+
+  logger.info('Using risk model provider', { provider: name });
+  return factory();
+};
+
+// Optional second backend that hedged requests go to (RISK_MODEL_HEDGE_PROVIDER)
+export const createHedgeRiskModelProvider = (
+  name: string | undefined = process.env.RISK_MODEL_HEDGE_PROVIDER
+): RiskModelProvider | undefined => name ? createRiskModelProvider(name) : undefined;
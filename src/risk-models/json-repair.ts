@@ -0,0 +1,26 @@
+/**
+ * Best-effort cleanup of "almost JSON" model output: markdown fences, prose
+ * around the object, smart quotes, single-quoted strings, unquoted keys,
+ * comment lines and trailing commas.
+ */
+export const extractJson = (content: string): string => {
+  const unfenced = content
+    .trim()
+    .replace(/^```(?:json)?/i, '')
+    .replace(/```$/i, '')
+    .trim();
+
+  const start = unfenced.indexOf('{');
+  const end = unfenced.lastIndexOf('}');
+  return start !== -1 && end > start ? unfenced.slice(start, end + 1) : unfenced;
+};
+
+export const repairJson = (text: string): string => {
+  return text
+    .replace(/[\u201C\u201D]/g, '"')
+    .replace(/[\u2018\u2019]/g, '\'')
+    .replace(/^\s*\/\/.*$/gm, '')
+    .replace(/([{[,:]\s*)'([^'"\\]*)'(?=\s*[,}\]:])/g, '$1"$2"')
+    .replace(/([{,]\s*)([A-Za-z_][A-Za-z0-9_]*)\s*:/g, '$1"$2":')
+    .replace(/,\s*([}\]])/g, '$1');
+};
@@ -0,0 +1,58 @@
+import axios, { AxiosInstance } from 'axios';
+import { Transaction } from '../types';
+import { logger } from '../utils/logger';
+import { ChatMessage, ChatRiskModel } from './chat-risk-model';
+import { RiskModelSettings, readRiskModelSettings } from './risk-model-provider';
+import { RISK_ASSESSMENT_JSON_SCHEMA } from '../schemas/risk-model.schemas';
+
+/**
+ * Ollama's native /api/chat endpoint, which has its own request shape and
+ * can constrain output to a JSON Schema.
+ */
+export class OllamaRiskModel extends ChatRiskModel {
+  readonly name = 'ollama';
+  readonly model = process.env.OLLAMA_MODEL || 'llama3.1';
+  readonly settings: RiskModelSettings = readRiskModelSettings('OLLAMA', 60000);
+  private client: AxiosInstance;
+
+  constructor() {
+    super();
+
+    const baseURL = (process.env.OLLAMA_BASE_URL || 'http://127.0.0.1:11434').replace(/\/$/, '');
+    logger.info(`Ollama risk model using endpoint at ${baseURL}`);
+
+    this.client = axios.create({
+      baseURL,
+      headers: {
+        'Content-Type': 'application/json'
+      },
+      timeout: this.settings.timeoutMs
+    });
+  }
+
+  protected async complete(messages: ChatMessage[], transaction: Transaction): Promise<string> {
+    try {
+      const response = await this.client.post('/api/chat', {
+        model: this.model,
+        messages,
+        // Ollama 0.5+ accepts a JSON Schema; OLLAMA_FORMAT=json for older versions
+        format: process.env.OLLAMA_FORMAT === 'json' ? 'json' : RISK_ASSESSMENT_JSON_SCHEMA,
+        stream: false,
+        options: {
+          temperature: parseFloat(process.env.OLLAMA_TEMPERATURE || '0.2'),
+          num_predict: parseInt(process.env.OLLAMA_MAX_TOKENS || '500')
+        }
+      });
+
+      return response.data.message.content;
+    } catch (error: any) {
+      if (error.response?.data?.error) {
+        logger.error('Ollama API error details', {
+          message: error.response.data.error,
+          transactionId: transaction.id
+        });
+      }
+      throw error;
+    }
+  }
+}
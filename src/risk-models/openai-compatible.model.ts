@@ -0,0 +1,106 @@
+import axios, { AxiosInstance } from 'axios';
+import { Transaction } from '../types';
+import { logger } from '../utils/logger';
+import { ChatMessage, ChatRiskModel } from './chat-risk-model';
+import { RiskModelSettings, readRiskModelSettings } from './risk-model-provider';
+import { RISK_ASSESSMENT_JSON_SCHEMA } from '../schemas/risk-model.schemas';
+
+/**
+ * Any endpoint speaking the OpenAI chat completions API: LM Studio (the
+ * default), vLLM, OpenAI itself or a stub server in CI. LM_STUDIO_* variables
+ * are honoured for existing deployments.
+ */
+export class OpenAICompatibleRiskModel extends ChatRiskModel {
+  readonly name = 'openai';
+  readonly model = process.env.OPENAI_MODEL || process.env.LM_STUDIO_MODEL;
+  readonly settings: RiskModelSettings = readRiskModelSettings(
+    'OPENAI',
+    parseInt(process.env.LM_STUDIO_TIMEOUT || '90000')
+  );
+  private client: AxiosInstance;
+  private baseURL: string;
+
+  constructor() {
+    super();
+
+    // Determine base URL (no trailing slash, no /v1 suffix)
+    let baseURL = process.env.OPENAI_BASE_URL || process.env.LM_STUDIO_URL || 'http://localhost:1234';
+    // Replace localhost with 127.0.0.1 to avoid IPv6 (::1) resolution issues
+    if (baseURL.startsWith('http://localhost')) {
+      baseURL = baseURL.replace('http://localhost', 'http://127.0.0.1');
+    }
+
+    // strip any trailing slash
+    baseURL = baseURL.replace(/\/$/, '');
+    // strip a trailing /v1 if the user already added it
+    baseURL = baseURL.replace(/\/v1$/i, '');
+    this.baseURL = baseURL;
+
+    logger.info(`OpenAI-compatible risk model using endpoint at ${baseURL}`);
+
+    const apiKey = process.env.OPENAI_API_KEY || process.env.LM_STUDIO_API_KEY;
+    this.client = axios.create({
+      // Append single /v1 API prefix
+      baseURL: `${baseURL}/v1`,
+      headers: {
+        'Content-Type': 'application/json',
+        // Local servers such as LM Studio don't require authentication
+        ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {})
+      },
+      timeout: this.settings.timeoutMs
+    });
+  }
+
+  // OPENAI_RESPONSE_FORMAT: json_schema (strict structured output), json_object, or none for older servers
+  private responseFormat(): Record<string, unknown> {
+    switch (process.env.OPENAI_RESPONSE_FORMAT || 'json_schema') {
+      case 'json_schema':
+        return {
+          response_format: {
+            type: 'json_schema',
+            json_schema: { name: 'risk_assessment', strict: true, schema: RISK_ASSESSMENT_JSON_SCHEMA }
+          }
+        };
+      case 'json_object':
+        return { response_format: { type: 'json_object' } };
+      default:
+        return {};
+    }
+  }
+
+  protected async complete(messages: ChatMessage[], transaction: Transaction): Promise<string> {
+    try {
+      const response = await this.client.post('/chat/completions', {
+        model: this.model,
+        messages,
+        max_tokens: parseInt(process.env.OPENAI_MAX_TOKENS || process.env.LM_STUDIO_MAX_TOKENS || '500'),
+        temperature: parseFloat(process.env.OPENAI_TEMPERATURE || process.env.LM_STUDIO_TEMPERATURE || '0.7'),
+        stream: false,
+        ...this.responseFormat()
+      });
+
+      return response.data.choices[0].message.content;
+    } catch (error: any) {
+      if (error.code === 'ECONNREFUSED') {
+        logger.error('Risk model connection refused', {
+          message: `Cannot connect to the OpenAI-compatible endpoint at ${this.baseURL}.\n` +
+                   '• For LM Studio, ensure it is running (default port 1234).\n' +
+                   '• Open LM Studio, load a model (e.g. "qwen2.5-coder-1.5b-instruct"), then click "Open Web API".',
+          transactionId: transaction.id
+        });
+        throw new Error('Risk model server is not running. Please start it and load a model.');
+      }
+
+      if (error.response?.data?.error) {
+        const apiError = error.response.data.error;
+        logger.error('Risk model API error details', {
+          message: apiError.message,
+          type: apiError.type,
+          code: apiError.code,
+          transactionId: transaction.id
+        });
+      }
+      throw error;
+    }
+  }
+}
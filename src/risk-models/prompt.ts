@@ -0,0 +1,92 @@
+import * as crypto from 'crypto';
+import { PromptTemplate, Transaction } from '../types';
+import { currencyService } from '../config/currencies';
+import { redactor } from '../utils/redaction';
+
+const VARIABLE_PATTERN = /\{\{\s*(\w+)\s*\}\}/g;
+
+const describeAmount = (transaction: Transaction): string => {
+  const amount = currencyService.formatAmount(transaction.amount, transaction.currency);
+  const baseCurrency = currencyService.getBaseCurrency();
+  const baseAmount = currencyService.toBaseAmount(transaction.amount, transaction.currency);
+
+  if (baseAmount === undefined || transaction.currency === baseCurrency) {
+    return amount;
+  }
+  return `${amount} (approximately ${currencyService.formatAmount(baseAmount, baseCurrency)})`;
+};
+
+// What templates can reference; customer identifiers are redacted before they reach the model
+const PROMPT_VARIABLES: Record<string, (transaction: Transaction) => string> = {
+  amount: describeAmount,
+  currency: transaction => transaction.currency,
+  source: transaction => redactor.token(transaction.source),
+  email: transaction => redactor.email(transaction.email),
+  time: transaction => transaction.createdAt.toISOString(),
+  timezone: transaction => transaction.timezone || 'unknown'
+};
+
+// Used when config/prompts.yml is missing or invalid
+export const BUILTIN_PROMPT_TEMPLATE: PromptTemplate = {
+  version: 'v2',
+  description: 'Built-in risk assessment prompt',
+  system:
+    'You are a financial risk assessment expert. Analyze the transaction and provide a detailed risk assessment in JSON format.',
+  user: `
+      Analyze this payment transaction for fraud risk:
+
+      Transaction Details:
+      - Amount: {{amount}}
+      - Payment Source: {{source}}
+      - Customer Email: {{email}}
+      - Transaction Time: {{time}}
+
+      Customer identifiers may be masked (****) or hashed; judge them by their domain and prefix.
+
+      Please provide a risk assessment with:
+      1. Risk score (0.0 to 1.0)
+      2. Risk level (LOW, MEDIUM, HIGH, CRITICAL)
+      3. Explanation of the assessment
+      4. Key risk factors identified
+      5. Recommendations for handling this transaction
+
+      Consider factors like:
+      - Transaction amount relative to normal patterns
+      - Email domain legitimacy
+      - Payment source token patterns
+      - Time-based patterns
+
+      Respond only with valid JSON in this format:
+      {
+        "riskScore": 0.15,
+        "riskLevel": "LOW",
+        "explanation": "Low risk transaction based on normal amount and legitimate email domain",
+        "factors": [
+          {
+            "factor": "amount_normal",
+            "weight": 0.1,
+            "description": "Transaction amount within normal range"
+          }
+        ],
+        "recommendations": ["Process normally"]
+      }
+    `
+};
+
+// Variables a template references that no transaction can fill in
+export const unknownPromptVariables = (text: string): string[] =>
+  Array.from(text.matchAll(VARIABLE_PATTERN), match => match[1]).filter(name => !(name in PROMPT_VARIABLES));
+
+export const renderPrompt = (text: string, transaction: Transaction): string =>
+  text.replace(VARIABLE_PATTERN, (placeholder, name: string) =>
+    name in PROMPT_VARIABLES ? PROMPT_VARIABLES[name](transaction) : placeholder
+  );
+
+// Changes whenever the template text does, even if its version wasn't bumped
+export const promptTemplateDigest = (template: PromptTemplate): string =>
+  crypto.createHash('sha256').update(`${template.system}\n${template.user}`).digest('hex').slice(0, 12);
+
+export const buildRiskAssessmentPrompt = (
+  transaction: Transaction,
+  template: PromptTemplate = BUILTIN_PROMPT_TEMPLATE
+): string => renderPrompt(template.user, transaction);
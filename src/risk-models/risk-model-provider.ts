@@ -0,0 +1,46 @@
+import { RiskAssessment, Transaction } from '../types';
+
+export interface RiskModelSettings {
+  timeoutMs: number;
+  failureThreshold: number;
+  resetTimeout: number;
+}
+
+/**
+ * A backend that scores a transaction. Implementations may call a remote
+ * model or compute the assessment locally; failures are thrown so the
+ * caller can fall back.
+ */
+export interface RiskModelProvider {
+  readonly name: string;
+  // The concrete model behind the backend, when it has one (part of the cache identity)
+  readonly model?: string;
+  readonly settings: RiskModelSettings;
+  assess(transaction: Transaction): Promise<RiskAssessment>;
+}
+
+export class RiskModelError extends Error {
+  constructor(message: string, public provider: string) {
+    super(message);
+    this.name = 'RiskModelError';
+  }
+}
+
+// The model answered, but not with a usable assessment even after correction
+export class InvalidRiskResponseError extends RiskModelError {
+  constructor(provider: string, public errors: string[]) {
+    super(`Risk model response failed validation: ${errors.join('; ')}`, provider);
+    this.name = 'InvalidRiskResponseError';
+  }
+}
+
+// Reads <PREFIX>_TIMEOUT and <PREFIX>_CIRCUIT_BREAKER_* with the global breaker settings as fallback
+export const readRiskModelSettings = (prefix: string, defaultTimeoutMs: number): RiskModelSettings => ({
+  timeoutMs: parseInt(process.env[`${prefix}_TIMEOUT`] || String(defaultTimeoutMs)),
+  failureThreshold: parseInt(
+    process.env[`${prefix}_CIRCUIT_BREAKER_FAILURE_THRESHOLD`] || process.env.CIRCUIT_BREAKER_FAILURE_THRESHOLD || '5'
+  ),
+  resetTimeout: parseInt(
+    process.env[`${prefix}_CIRCUIT_BREAKER_RESET_TIMEOUT`] || process.env.CIRCUIT_BREAKER_RESET_TIMEOUT || '30000'
+  )
+});
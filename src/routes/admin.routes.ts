@@ -0,0 +1,474 @@
+import { Router } from 'express';
+import { adminController } from '../controllers/admin.controller';
+import { authenticate, requireAdmin } from '../middleware/auth.middleware';
+import { validate } from '../middleware/validation.middleware';
+import {
+  enabledSchema,
+  fraudRuleSchema,
+  providerConfigSchema,
+  riskThresholdsSchema,
+  scoringConfigSchema,
+  simulateSchema,
+  updateFraudRuleSchema,
+  updateProviderSchema
+} from '../schemas/admin.schemas';
+
+const router = Router();
+
+// Admin routes require an operator client (ADMIN_CLIENT_CREDENTIALS or ADMIN_CLIENT_IDS)
+router.use(authenticate, requireAdmin);
+
+/**
+ * @swagger
+ * /admin/fraud-config:
+ *   get:
+ *     summary: Get the active fraud configuration and its version
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Active rules, providers and thresholds
+ */
+router.get('/fraud-config', adminController.getConfig.bind(adminController));
+
+/**
+ * @swagger
+ * /admin/fraud-config/versions:
+ *   get:
+ *     summary: List fraud configuration changes, newest first
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Audit trail of who changed what
+ */
+router.get('/fraud-config/versions', adminController.listVersions.bind(adminController));
+
+/**
+ * @swagger
+ * /admin/fraud-config/simulate:
+ *   post:
+ *     summary: Dry-run candidate rules or a full config against sample or stored transactions
+ *     description: Compares each transaction's outcome under the candidate and the live configuration. Nothing is changed or recorded.
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               config:
+ *                 type: object
+ *                 description: Full candidate configuration (rules, providers, thresholds)
+ *               rules:
+ *                 type: array
+ *                 description: Candidate rules, merged by name into the live configuration
+ *                 items:
+ *                   type: object
+ *               transactions:
+ *                 type: array
+ *                 description: Sample transactions; extra fields such as velocity counters are passed to the rules
+ *                 items:
+ *                   type: object
+ *               transactionIds:
+ *                 type: array
+ *                 description: Stored transactions to replay
+ *                 items:
+ *                   type: string
+ *     responses:
+ *       200:
+ *         description: Per-transaction live and candidate outcomes with aggregate differences
+ *       422:
+ *         description: Candidate configuration is invalid
+ */
+router.post('/fraud-config/simulate', validate(simulateSchema), adminController.simulate.bind(adminController));
+
+/**
+ * @swagger
+ * /admin/rules:
+ *   get:
+ *     summary: List all fraud rules, including disabled ones
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Fraud rules
+ */
+router.get('/rules', adminController.listRules.bind(adminController));
+
+/**
+ * @swagger
+ * /admin/rules:
+ *   post:
+ *     summary: Create a fraud rule
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             description: A fraud rule as defined in config/fraud-rules.yml
+ *             required: [name, enabled, weight, action, conditions]
+ *     responses:
+ *       201:
+ *         description: Change stored as a new config version and applied
+ *       409:
+ *         description: Name already exists or the config was changed concurrently
+ *       422:
+ *         description: Resulting configuration is invalid
+ */
+router.post('/rules', validate(fraudRuleSchema), adminController.createRule.bind(adminController));
+
+/**
+ * @swagger
+ * /admin/rules/{name}:
+ *   put:
+ *     summary: Replace a fraud rule
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: name
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             description: A fraud rule without its name
+ *             required: [enabled, weight, action, conditions]
+ *     responses:
+ *       200:
+ *         description: Change stored as a new config version and applied
+ *       404:
+ *         description: Rule not found
+ *       409:
+ *         description: Name already exists or the config was changed concurrently
+ *       422:
+ *         description: Resulting configuration is invalid
+ */
+router.put('/rules/:name', validate(updateFraudRuleSchema), adminController.updateRule.bind(adminController));
+
+/**
+ * @swagger
+ * /admin/rules/{name}/enabled:
+ *   patch:
+ *     summary: Enable or disable a fraud rule
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: name
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [enabled]
+ *             properties:
+ *               enabled:
+ *                 type: boolean
+ *     responses:
+ *       200:
+ *         description: Change stored as a new config version and applied
+ *       404:
+ *         description: Rule not found
+ */
+router.patch('/rules/:name/enabled', validate(enabledSchema), adminController.setRuleEnabled.bind(adminController));
+
+/**
+ * @swagger
+ * /admin/rules/{name}:
+ *   delete:
+ *     summary: Delete a fraud rule
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: name
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Change stored as a new config version and applied
+ *       404:
+ *         description: Rule not found
+ */
+router.delete('/rules/:name', adminController.deleteRule.bind(adminController));
+
+/**
+ * @swagger
+ * /admin/providers:
+ *   get:
+ *     summary: List all payment providers, including disabled ones
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Payment providers
+ */
+router.get('/providers', adminController.listProviders.bind(adminController));
+
+/**
+ * @swagger
+ * /admin/providers:
+ *   post:
+ *     summary: Add a payment provider
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [name, priority, riskTolerance, enabled]
+ *     responses:
+ *       201:
+ *         description: Change stored as a new config version and applied
+ *       409:
+ *         description: Name already exists or the config was changed concurrently
+ *       422:
+ *         description: Resulting configuration is invalid
+ */
+router.post('/providers', validate(providerConfigSchema), adminController.createProvider.bind(adminController));
+
+/**
+ * @swagger
+ * /admin/providers/{name}:
+ *   put:
+ *     summary: Replace a payment provider's settings
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: name
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [priority, riskTolerance, enabled]
+ *     responses:
+ *       200:
+ *         description: Change stored as a new config version and applied
+ *       404:
+ *         description: Provider not found
+ *       409:
+ *         description: Name already exists or the config was changed concurrently
+ *       422:
+ *         description: Resulting configuration is invalid
+ */
+router.put('/providers/:name', validate(updateProviderSchema), adminController.updateProvider.bind(adminController));
+
+/**
+ * @swagger
+ * /admin/providers/{name}/enabled:
+ *   patch:
+ *     summary: Enable or disable a payment provider
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: name
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [enabled]
+ *             properties:
+ *               enabled:
+ *                 type: boolean
+ *     responses:
+ *       200:
+ *         description: Change stored as a new config version and applied
+ *       404:
+ *         description: Provider not found
+ *       422:
+ *         description: Resulting configuration is invalid
+ */
+router.patch('/providers/:name/enabled', validate(enabledSchema), adminController.setProviderEnabled.bind(adminController));
+
+/**
+ * @swagger
+ * /admin/providers/{name}:
+ *   delete:
+ *     summary: Remove a payment provider
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: name
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Change stored as a new config version and applied
+ *       404:
+ *         description: Provider not found
+ *       422:
+ *         description: Resulting configuration is invalid
+ */
+router.delete('/providers/:name', adminController.deleteProvider.bind(adminController));
+
+/**
+ * @swagger
+ * /admin/thresholds:
+ *   get:
+ *     summary: Get the risk thresholds
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Risk thresholds
+ */
+router.get('/thresholds', adminController.getThresholds.bind(adminController));
+
+/**
+ * @swagger
+ * /admin/thresholds:
+ *   put:
+ *     summary: Replace the risk thresholds
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [low, medium, high, critical]
+ *             properties:
+ *               low:
+ *                 type: number
+ *               medium:
+ *                 type: number
+ *               high:
+ *                 type: number
+ *               critical:
+ *                 type: number
+ *     responses:
+ *       200:
+ *         description: Change stored as a new config version and applied
+ *       422:
+ *         description: Resulting configuration is invalid
+ */
+router.put('/thresholds', validate(riskThresholdsSchema), adminController.updateThresholds.bind(adminController));
+
+/**
+ * @swagger
+ * /admin/scoring:
+ *   get:
+ *     summary: Get the strategy that combines fraud rule and risk model scores
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Score combination strategy and weights
+ */
+router.get('/scoring', adminController.getScoring.bind(adminController));
+
+/**
+ * @swagger
+ * /admin/scoring:
+ *   put:
+ *     summary: Replace the score combination strategy
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [strategy]
+ *             properties:
+ *               strategy:
+ *                 type: string
+ *                 enum: [max, weighted, rules_only, model_only, raise_only]
+ *               weights:
+ *                 type: object
+ *                 description: Required for weighted; raise_only uses them to limit how far the model can raise the score
+ *                 properties:
+ *                   rules:
+ *                     type: number
+ *                   model:
+ *                     type: number
+ *     responses:
+ *       200:
+ *         description: Change stored as a new config version and applied
+ *       422:
+ *         description: Resulting configuration is invalid
+ */
+router.put('/scoring', validate(scoringConfigSchema), adminController.updateScoring.bind(adminController));
+
+/**
+ * @swagger
+ * /admin/risk-cache/invalidate:
+ *   post:
+ *     summary: Discard all cached risk assessments, e.g. after changing the prompt or model
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Cache generation after invalidation
+ *       503:
+ *         description: Cache store is unavailable
+ */
+router.post('/risk-cache/invalidate', adminController.invalidateRiskCache.bind(adminController));
+
+/**
+ * @swagger
+ * /admin/metrics:
+ *   get:
+ *     summary: In-process counters for this instance, such as enforced and shadow fraud rule matches
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Counter values keyed by name and labels
+ */
+router.get('/metrics', adminController.getMetrics.bind(adminController));
+
+export default router;
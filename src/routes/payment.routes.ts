@@ -2,7 +2,8 @@ import { Router } from 'express';
 import { paymentController } from '../controllers/payment.controller';
 import { authenticate } from '../middleware/auth.middleware';
 import { validate } from '../middleware/validation.middleware';
-import { processPaymentSchema } from '../schemas/payment.schemas';
+import { idempotency } from '../middleware/idempotency.middleware';
+import { processPaymentSchema, refundSchema, captureSchema } from '../schemas/payment.schemas';
 
 const router = Router();
 
@@ -17,6 +18,14 @@ router.use(authenticate);
  *     tags: [Payments]
  *     security:
  *       - bearerAuth: []
+ *     parameters:
+ *       - in: header
+ *         name: Idempotency-Key
+ *         required: false
+ *         description: Client-generated key; retries with the same key and body replay the first response
+ *         schema:
+ *           type: string
+ *           maxLength: 255
  *     requestBody:
  *       required: true
  *       content:
@@ -28,11 +37,11 @@ router.use(authenticate);
  *               amount:
  *                 type: number
  *                 minimum: 1
- *                 maximum: 1000000
+ *                 description: Minor units of the currency, at most 10,000.00 in the base currency
  *                 example: 1000
  *               currency:
  *                 type: string
- *                 enum: [USD, EUR, GBP, CAD]
+ *                 description: ISO 4217 code listed in config/currencies.yml
  *                 example: "USD"
  *               source:
  *                 type: string
@@ -43,6 +52,15 @@ router.use(authenticate);
  *                 type: string
  *                 format: email
  *                 example: "donor@example.com"
+ *               intent:
+ *                 type: string
+ *                 enum: [sale, authorize]
+ *                 default: sale
+ *                 description: "authorize places a hold to be captured later; sale authorizes and captures at once"
+ *               timezone:
+ *                 type: string
+ *                 example: "Europe/Berlin"
+ *                 description: Customer's IANA time zone, used by time-based fraud rules
  *     responses:
  *       201:
  *         description: Payment initiated successfully
@@ -70,8 +88,12 @@ router.use(authenticate);
  *         description: Invalid request data
  *       401:
  *         description: Unauthorized
+ *       409:
+ *         description: A request with the same Idempotency-Key is still in flight
+ *       422:
+ *         description: Idempotency-Key reused with a different payload
  */
-router.post('/usage', validate(processPaymentSchema), paymentController.processPayment.bind(paymentController));
+router.post('/usage', validate(processPaymentSchema), idempotency, paymentController.processPayment.bind(paymentController));
 
 /**
  * @swagger
@@ -95,4 +117,108 @@ router.post('/usage', validate(processPaymentSchema), paymentController.processP
  */
 router.get('/:transactionId', paymentController.getPaymentStatus.bind(paymentController));
 
+/**
+ * @swagger
+ * /payments/{transactionId}/refunds:
+ *   post:
+ *     summary: Refund a processed payment in full or in part
+ *     tags: [Payments]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: transactionId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: false
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               amount:
+ *                 type: number
+ *                 description: Amount to refund; omit to refund the remaining balance
+ *                 example: 500
+ *               reason:
+ *                 type: string
+ *                 maxLength: 255
+ *                 example: "Customer requested cancellation"
+ *     responses:
+ *       201:
+ *         description: Refund issued
+ *       404:
+ *         description: Transaction not found
+ *       409:
+ *         description: Transaction is not in a refundable state, or another request changed it concurrently (retry)
+ *       422:
+ *         description: Refund amount exceeds the remaining refundable amount
+ *       502:
+ *         description: Payment provider failed to process the refund
+ */
+router.post('/:transactionId/refunds', validate(refundSchema), paymentController.refundPayment.bind(paymentController));
+
+/**
+ * @swagger
+ * /payments/{transactionId}/capture:
+ *   post:
+ *     summary: Capture a previously authorized payment
+ *     tags: [Payments]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: transactionId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: false
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               amount:
+ *                 type: number
+ *                 description: Amount to capture; may be lower than the authorized amount
+ *                 example: 800
+ *     responses:
+ *       200:
+ *         description: Authorization captured
+ *       404:
+ *         description: Transaction not found
+ *       409:
+ *         description: Transaction is not an open authorization or it has expired
+ *       422:
+ *         description: Capture amount exceeds the authorized amount
+ */
+router.post('/:transactionId/capture', validate(captureSchema), paymentController.capturePayment.bind(paymentController));
+
+/**
+ * @swagger
+ * /payments/{transactionId}/void:
+ *   post:
+ *     summary: Void a previously authorized payment, or one the provider hasn't settled yet
+ *     tags: [Payments]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: transactionId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Authorization voided
+ *       404:
+ *         description: Transaction not found
+ *       409:
+ *         description: Transaction is neither an open authorization nor awaiting settlement
+ */
+router.post('/:transactionId/void', paymentController.voidPayment.bind(paymentController));
+
 export default router;
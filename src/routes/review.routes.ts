@@ -0,0 +1,112 @@
+import { Router } from 'express';
+import { reviewController } from '../controllers/review.controller';
+import { authenticate, requireAdmin } from '../middleware/auth.middleware';
+import { validate } from '../middleware/validation.middleware';
+import { reviewDecisionSchema } from '../schemas/review.schemas';
+
+const router = Router();
+
+// Reviews are decided by operator clients, never by the client that submitted the payment
+router.use(authenticate, requireAdmin);
+
+/**
+ * @swagger
+ * /reviews:
+ *   get:
+ *     summary: List transactions awaiting manual review
+ *     tags: [Reviews]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: limit
+ *         required: false
+ *         schema:
+ *           type: integer
+ *           maximum: 500
+ *           default: 100
+ *     responses:
+ *       200:
+ *         description: Pending review items with their risk factors and explanation
+ *       403:
+ *         description: Admin access required
+ */
+router.get('/', reviewController.listPending.bind(reviewController));
+
+/**
+ * @swagger
+ * /reviews/{transactionId}/approve:
+ *   post:
+ *     summary: Approve a transaction held for manual review and send it to a provider
+ *     description: Transactions held after they were already charged or authorized keep that result; the hold is released.
+ *     tags: [Reviews]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: transactionId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [reason]
+ *             properties:
+ *               reason:
+ *                 type: string
+ *                 example: "Verified with customer by phone"
+ *     responses:
+ *       200:
+ *         description: Review recorded and transaction settled
+ *       403:
+ *         description: Admin access required
+ *       404:
+ *         description: Transaction not found
+ *       409:
+ *         description: Transaction is not awaiting manual review, or another decision on it is in progress
+ */
+router.post('/:transactionId/approve', validate(reviewDecisionSchema), reviewController.approve.bind(reviewController));
+
+/**
+ * @swagger
+ * /reviews/{transactionId}/decline:
+ *   post:
+ *     summary: Decline a transaction held for manual review
+ *     description: Transactions held after they were already charged are refunded; open authorizations are voided.
+ *     tags: [Reviews]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: transactionId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [reason]
+ *             properties:
+ *               reason:
+ *                 type: string
+ *                 example: "Billing address mismatch"
+ *     responses:
+ *       200:
+ *         description: Review recorded and transaction failed
+ *       403:
+ *         description: Admin access required
+ *       404:
+ *         description: Transaction not found
+ *       409:
+ *         description: Transaction is not awaiting manual review, or another decision on it is in progress
+ */
+router.post('/:transactionId/decline', validate(reviewDecisionSchema), reviewController.decline.bind(reviewController));
+
+export default router;
@@ -0,0 +1,38 @@
+import Joi from 'joi';
+import { fraudRuleSchema, providerConfigSchema } from './fraud-rules.schemas';
+
+export { fraudRuleSchema, providerConfigSchema, riskThresholdsSchema, scoringConfigSchema } from './fraud-rules.schemas';
+
+// The name comes from the URL on updates
+export const updateFraudRuleSchema = fraudRuleSchema.fork(['name'], schema => schema.forbidden());
+
+export const updateProviderSchema = providerConfigSchema.fork(['name'], schema => schema.forbidden());
+
+export const enabledSchema = Joi.object({
+  enabled: Joi.boolean().required()
+});
+
+const MAX_SIMULATED_TRANSACTIONS = 1000;
+
+// Extra fields (velocity counters, etc.) are passed through to the rules
+const simulatedTransactionSchema = Joi.object({
+  id: Joi.string(),
+  amount: Joi.number().positive().required(),
+  currency: Joi.string().length(3).uppercase().required(),
+  source: Joi.string().required(),
+  email: Joi.string().required()
+}).unknown(true);
+
+export const simulateSchema = Joi.object({
+  // Full configs are checked by the simulation itself so errors match the admin API
+  config: Joi.object().unknown(true),
+  rules: Joi.array().items(fraudRuleSchema).unique('name').min(1),
+  transactions: Joi.array().items(simulatedTransactionSchema).max(MAX_SIMULATED_TRANSACTIONS),
+  transactionIds: Joi.array().items(Joi.string()).unique().max(MAX_SIMULATED_TRANSACTIONS)
+})
+  .xor('config', 'rules')
+  .or('transactions', 'transactionIds')
+  .messages({
+    'object.xor': 'Provide either a full config or a set of candidate rules',
+    'object.missing': 'Provide transactions or transactionIds to simulate against'
+  });
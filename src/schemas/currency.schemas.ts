@@ -0,0 +1,19 @@
+import Joi from 'joi';
+
+const currencyCode = Joi.string().pattern(/^[A-Z]{3}$/);
+
+export const currencyDefinitionSchema = Joi.object({
+  exponent: Joi.number().integer().min(0).max(4).required(),
+  rate: Joi.number().positive().required()
+});
+
+export const currencyTableSchema = Joi.object({
+  base: currencyCode.required(),
+  updated_at: Joi.string(),
+  currencies: Joi.object().pattern(currencyCode, currencyDefinitionSchema).min(1).required()
+}).custom((value, helpers) => {
+  if (!value.currencies[value.base]) {
+    return helpers.message({ custom: `base currency ${value.base} must be listed in currencies` });
+  }
+  return value;
+});
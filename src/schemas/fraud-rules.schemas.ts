@@ -0,0 +1,109 @@
+import Joi from 'joi';
+import { isValidTimeZone } from '../utils/time-fields';
+
+export const FRAUD_OPERATORS = [
+  'gt', 'lt', 'gte', 'lte', 'eq', 'between',
+  'in', 'not_in',
+  'contains', 'starts_with', 'ends_with', 'regex',
+  'exists'
+];
+
+const regexPattern = Joi.string().custom((value, helpers) => {
+  try {
+    new RegExp(value);
+    return value;
+  } catch (error) {
+    return helpers.message({ custom: `{{#label}} is not a valid regular expression: ${(error as Error).message}` });
+  }
+});
+
+export const timeZoneSchema = Joi.string().custom((value, helpers) => {
+  if (!isValidTimeZone(value)) {
+    return helpers.message({ custom: '{{#label}} must be an IANA time zone such as Europe/Berlin' });
+  }
+  return value;
+});
+
+// Full dates (2026-11-26) or recurring month-days (12-25)
+const holidaySchema = Joi.string().pattern(/^(\d{4}-)?\d{2}-\d{2}$/)
+  .messages({ 'string.pattern.base': '{{#label}} must be YYYY-MM-DD or MM-DD' });
+
+export const fraudConditionSchema = Joi.object({
+  field: Joi.string().required(),
+  operator: Joi.string().valid(...FRAUD_OPERATORS).required(),
+  value: Joi.when('operator', {
+    switch: [
+      { is: Joi.valid('gt', 'lt', 'gte', 'lte'), then: Joi.number().required() },
+      { is: 'between', then: Joi.array().items(Joi.number()).length(2).required() },
+      { is: Joi.valid('in', 'not_in'), then: Joi.array().min(1).required() },
+      { is: 'regex', then: regexPattern.required() },
+      { is: Joi.valid('contains', 'starts_with', 'ends_with'), then: Joi.string().required() },
+      { is: 'exists', then: Joi.boolean().default(true) }
+    ],
+    otherwise: Joi.any().required()
+  }),
+  description: Joi.string().required()
+});
+
+// A node with a `field` is a leaf condition; anything else must be an all/any/not group
+export const fraudConditionNodeSchema = Joi.alternatives().conditional(
+  Joi.object({ field: Joi.exist() }).unknown(),
+  {
+    then: fraudConditionSchema,
+    otherwise: Joi.object({
+      all: Joi.array().items(Joi.link('#conditionNode')).min(1),
+      any: Joi.array().items(Joi.link('#conditionNode')).min(1),
+      not: Joi.link('#conditionNode'),
+      description: Joi.string()
+    }).xor('all', 'any', 'not')
+  }
+).id('conditionNode');
+
+export const fraudRuleSchema = Joi.object({
+  name: Joi.string().required(),
+  enabled: Joi.boolean().required(),
+  weight: Joi.number().min(0).max(1).required(),
+  action: Joi.string().valid('flag', 'block', 'review').required(),
+  mode: Joi.string().valid('enforce', 'shadow').default('enforce'),
+  conditions: Joi.array().items(fraudConditionNodeSchema).min(1).required()
+});
+
+export const providerConfigSchema = Joi.object({
+  name: Joi.string().required(),
+  priority: Joi.number().integer().min(0).required(),
+  riskTolerance: Joi.string().valid('low', 'medium', 'high').required(),
+  enabled: Joi.boolean().required(),
+  adapter: Joi.string()
+});
+
+// Each threshold must be strictly greater than the one before it
+export const riskThresholdsSchema = Joi.object({
+  low: Joi.number().min(0).max(1).required(),
+  medium: Joi.number().max(1).greater(Joi.ref('low')).required(),
+  high: Joi.number().max(1).greater(Joi.ref('medium')).required(),
+  critical: Joi.number().max(1).greater(Joi.ref('high')).required()
+});
+
+export const scoringConfigSchema = Joi.object({
+  strategy: Joi.string().valid('max', 'weighted', 'rules_only', 'model_only', 'raise_only').required(),
+  weights: Joi.object({
+    rules: Joi.number().min(0).required(),
+    model: Joi.number().min(0).required()
+  }).custom((weights, helpers) => {
+    if (weights.rules + weights.model <= 0) {
+      return helpers.message({ custom: '{{#label}} must not all be zero' });
+    }
+    return weights;
+  }).when('strategy', { is: 'weighted', then: Joi.required() })
+});
+
+export const fraudRuleConfigSchema = Joi.object({
+  rules: Joi.array().items(fraudRuleSchema).unique('name').required(),
+  providers: Joi.array().items(providerConfigSchema).unique('name').min(1).required(),
+  thresholds: riskThresholdsSchema.required(),
+  scoring: scoringConfigSchema.default({ strategy: 'max' }),
+  settings: Joi.object({
+    timezone: timeZoneSchema,
+    holidays: Joi.array().items(holidaySchema).unique()
+  }).unknown(true)
+});
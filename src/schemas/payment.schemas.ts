@@ -1,17 +1,33 @@
 import Joi from 'joi';
+import { timeZoneSchema } from './fraud-rules.schemas';
+import { currencyService } from '../config/currencies';
+
+// Per-payment limit in minor units of the base currency (10,000.00 with a USD base)
+const MAX_PAYMENT_BASE_AMOUNT = 1000000;
 
 export const processPaymentSchema = Joi.object({
-  amount: Joi.number().positive().max(1000000).required()
+  // Limited by its value in the base currency; unsupported currencies are rejected below
+  amount: Joi.number().positive().required()
+    .custom((value, helpers) => {
+      const currency = String(helpers.state.ancestors[0].currency || '').toUpperCase();
+      const baseAmount = currencyService.toBaseAmount(value, currency);
+      if (baseAmount !== undefined && baseAmount > MAX_PAYMENT_BASE_AMOUNT) {
+        const limit = currencyService.formatAmount(MAX_PAYMENT_BASE_AMOUNT, currencyService.getBaseCurrency());
+        return helpers.error('amount.max', { limit });
+      }
+      return value;
+    })
     .messages({
       'number.positive': 'Amount must be positive',
-      'number.max': 'Amount cannot exceed $10,000'
+      'amount.max': 'Amount cannot exceed {{#limit}}'
     }),
   
+  // Checked against the live rate table so added currencies need no deploy
   currency: Joi.string().length(3).uppercase().required()
-    .valid('USD', 'EUR', 'GBP', 'CAD')
+    .custom((value, helpers) => currencyService.isSupported(value) ? value : helpers.error('currency.unsupported'))
     .messages({
       'string.length': 'Currency must be 3 characters',
-      'any.only': 'Currency must be one of USD, EUR, GBP, CAD'
+      'currency.unsupported': 'Currency {{#value}} is not supported'
     }),
   
   source: Joi.string().min(3).max(100).required()
@@ -23,6 +39,35 @@ export const processPaymentSchema = Joi.object({
   email: Joi.string().email().required()
     .messages({
       'string.email': 'Email must be a valid email address'
+    }),
+
+  intent: Joi.string().valid('authorize', 'sale').default('sale')
+    .messages({
+      'any.only': 'Intent must be one of authorize, sale'
+    }),
+
+  // Customer's local time zone for time-based fraud rules
+  timezone: timeZoneSchema
+});
+
+export const refundSchema = Joi.object({
+  // At most what is left to refund, checked against the transaction
+  amount: Joi.number().positive()
+    .messages({
+      'number.positive': 'Refund amount must be positive'
+    }),
+
+  reason: Joi.string().max(255)
+    .messages({
+      'string.max': 'Reason cannot exceed 255 characters'
+    })
+});
+
+export const captureSchema = Joi.object({
+  // At most the authorized amount, checked against the transaction
+  amount: Joi.number().positive()
+    .messages({
+      'number.positive': 'Capture amount must be positive'
     })
 });
 
@@ -0,0 +1,43 @@
+import Joi from 'joi';
+import { unknownPromptVariables } from '../risk-models/prompt';
+
+const version = Joi.string().pattern(/^[A-Za-z0-9._-]+$/);
+
+const promptText = Joi.string().trim().required().custom((value, helpers) => {
+  const unknown = unknownPromptVariables(value);
+  if (unknown.length > 0) {
+    return helpers.message({ custom: `unknown template variables: ${unknown.join(', ')}` });
+  }
+  return value;
+});
+
+const selection = Joi.alternatives().try(
+  version,
+  Joi.object().pattern(version, Joi.number().min(0)).min(1).custom((value, helpers) => {
+    const total = Object.values(value as Record<string, number>).reduce((sum, weight) => sum + weight, 0);
+    if (total <= 0) {
+      return helpers.message({ custom: 'template weights must not all be zero' });
+    }
+    return value;
+  })
+);
+
+export const promptTemplateSchema = Joi.object({
+  description: Joi.string(),
+  system: promptText,
+  user: promptText
+});
+
+export const promptTemplateConfigSchema = Joi.object({
+  default: selection.required(),
+  select: Joi.object().pattern(Joi.string(), selection),
+  templates: Joi.object().pattern(version, promptTemplateSchema).min(1).required()
+}).custom((value, helpers) => {
+  const selections = [value.default, ...Object.values(value.select || {})];
+  const referenced = selections.flatMap(entry => (typeof entry === 'string' ? [entry] : Object.keys(entry)));
+  const missing = referenced.filter(name => !value.templates[name]);
+  if (missing.length > 0) {
+    return helpers.message({ custom: `selected templates are not defined: ${Array.from(new Set(missing)).join(', ')}` });
+  }
+  return value;
+});
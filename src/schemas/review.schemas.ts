@@ -0,0 +1,10 @@
+import Joi from 'joi';
+
+export const reviewDecisionSchema = Joi.object({
+  reason: Joi.string().min(3).max(500).required()
+    .messages({
+      'string.min': 'Reason must be at least 3 characters',
+      'string.max': 'Reason cannot exceed 500 characters',
+      'any.required': 'A reason is required for every review decision'
+    })
+});
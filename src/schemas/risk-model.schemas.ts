@@ -0,0 +1,47 @@
+import Joi from 'joi';
+
+// Models sometimes answer 1.2 or "0.8"; coerce to a number and clamp into 0-1
+const clampedScore = Joi.number().custom(value => Math.min(1, Math.max(0, value)));
+
+const riskFactorSchema = Joi.object({
+  factor: Joi.string().trim().min(1).max(100).required(),
+  weight: clampedScore.required(),
+  description: Joi.string().allow('').max(500).default('')
+});
+
+export const riskModelResponseSchema = Joi.object({
+  riskScore: clampedScore.required(),
+  riskLevel: Joi.string().trim().uppercase().valid('LOW', 'MEDIUM', 'HIGH', 'CRITICAL').required(),
+  explanation: Joi.string().trim().min(1).max(2000).required(),
+  factors: Joi.array().items(riskFactorSchema).max(20).default([]),
+  recommendations: Joi.array().items(Joi.string().max(500)).max(20).default([])
+});
+
+/**
+ * The same contract as a JSON Schema, sent to backends that support
+ * structured output (OpenAI response_format, Ollama format).
+ */
+export const RISK_ASSESSMENT_JSON_SCHEMA = {
+  type: 'object',
+  properties: {
+    riskScore: { type: 'number', minimum: 0, maximum: 1 },
+    riskLevel: { type: 'string', enum: ['LOW', 'MEDIUM', 'HIGH', 'CRITICAL'] },
+    explanation: { type: 'string' },
+    factors: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          factor: { type: 'string' },
+          weight: { type: 'number', minimum: 0, maximum: 1 },
+          description: { type: 'string' }
+        },
+        required: ['factor', 'weight', 'description'],
+        additionalProperties: false
+      }
+    },
+    recommendations: { type: 'array', items: { type: 'string' } }
+  },
+  required: ['riskScore', 'riskLevel', 'explanation', 'factors', 'recommendations'],
+  additionalProperties: false
+};
@@ -0,0 +1,95 @@
+import { TransactionStatus } from '../types';
+import { logger } from '../utils/logger';
+import { paymentService } from './payment.service';
+import { cacheService } from './cache.service';
+import { transactionRepository } from '../repositories';
+import { TransactionRepository } from '../repositories/transaction.repository';
+
+const MAX_SAVE_ATTEMPTS = 3;
+
+/**
+ * Periodically releases authorizations that were never captured within the
+ * configured window (AUTHORIZATION_EXPIRY_HOURS).
+ */
+export class AuthorizationExpiryService {
+  private timer?: NodeJS.Timeout;
+
+  constructor(
+    private repository: TransactionRepository = transactionRepository,
+    private intervalMs: number = parseInt(process.env.AUTHORIZATION_SWEEP_INTERVAL_MS || '60000')
+  ) {}
+
+  start(): void {
+    if (this.timer) {
+      return;
+    }
+
+    this.timer = setInterval(() => {
+      this.sweep().catch((error) => {
+        logger.error('Authorization expiry sweep failed', { error: (error as Error).message });
+      });
+    }, this.intervalMs);
+    // Don't keep the process alive just for the sweeper
+    this.timer.unref();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  async sweep(now: Date = new Date()): Promise<number> {
+    const authorized = await this.repository.findByStatus(TransactionStatus.AUTHORIZED);
+    let expired = 0;
+
+    for (const candidate of authorized) {
+      if (paymentService.isAuthorizationExpired(candidate, now) && (await this.expire(candidate.id, now))) {
+        await cacheService.del(cacheService.generateKey('transaction', candidate.id));
+        expired++;
+      }
+    }
+
+    if (expired > 0) {
+      logger.info('Expired uncaptured authorizations', { count: expired });
+    }
+
+    return expired;
+  }
+
+  private async expire(transactionId: string, now: Date): Promise<boolean> {
+    // Captured or voided since the listing was read
+    const transaction = await this.repository.findById(transactionId);
+    if (!transaction || transaction.status !== TransactionStatus.AUTHORIZED || !paymentService.isAuthorizationExpired(transaction, now)) {
+      return false;
+    }
+
+    const expectedUpdatedAt = transaction.updatedAt;
+    if (!(await paymentService.expireAuthorization(transaction))) {
+      return false;
+    }
+    if (await this.repository.saveIfUnchanged(transaction, expectedUpdatedAt)) {
+      return true;
+    }
+
+    // Changed while the provider released the hold, e.g. held for review; record the expiry on the latest copy
+    for (let attempt = 1; attempt <= MAX_SAVE_ATTEMPTS; attempt++) {
+      const current = await this.repository.findById(transactionId);
+      if (!current) {
+        return false;
+      }
+
+      const currentUpdatedAt = current.updatedAt;
+      paymentService.applyExpiry(current);
+      if (await this.repository.saveIfUnchanged(current, currentUpdatedAt)) {
+        return true;
+      }
+    }
+
+    logger.error('Released an expired authorization but could not record it; reconcile the transaction', { transactionId });
+    return false;
+  }
+}
+
+export const authorizationExpiryService = new AuthorizationExpiryService();
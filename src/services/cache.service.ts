@@ -24,6 +24,16 @@ export class CacheService {
     }
   }
 
+  async setIfNotExists(key: string, value: any, ttl: number = 3600): Promise<boolean> {
+    try {
+      const result = await this.redis.set(key, JSON.stringify(value), { NX: true, EX: ttl });
+      return result === 'OK';
+    } catch (error) {
+      logger.error('Cache setIfNotExists error', { key, error });
+      return false;
+    }
+  }
+
   async del(key: string): Promise<boolean> {
     try {
       await this.redis.del(key);
@@ -34,6 +44,25 @@ export class CacheService {
     }
   }
 
+  async increment(key: string): Promise<number | null> {
+    try {
+      return await this.redis.incr(key);
+    } catch (error) {
+      logger.error('Cache increment error', { key, error });
+      return null;
+    }
+  }
+
+  // Extends a key's lifetime without touching its value
+  async expire(key: string, ttl: number): Promise<boolean> {
+    try {
+      return await this.redis.expire(key, ttl) === 1;
+    } catch (error) {
+      logger.error('Cache expire error', { key, error });
+      return false;
+    }
+  }
+
   async exists(key: string): Promise<boolean> {
     try {
       const result = await this.redis.exists(key);
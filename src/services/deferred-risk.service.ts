@@ -0,0 +1,104 @@
+import { Transaction } from '../types';
+import { logger } from '../utils/logger';
+import { eventPublisher, EVENTS } from '../utils/events';
+import { JobQueue } from '../utils/job-queue';
+import { metrics, METRICS } from '../utils/metrics';
+import { paymentService } from './payment.service';
+import { llmService } from './llm.service';
+import { cacheService } from './cache.service';
+import { transactionRepository } from '../repositories';
+import { TransactionRepository } from '../repositories/transaction.repository';
+
+const MAX_SAVE_ATTEMPTS = 3;
+
+/**
+ * Finishes risk model assessments for transactions that were decided on
+ * fraud rules because the model missed the latency budget
+ * (RISK_ASSESSMENT_MODE=async). Jobs are queued once the decided
+ * transaction has been stored, so the update never races the original save.
+ */
+export class DeferredRiskService {
+  private queue: JobQueue<string>;
+
+  constructor(
+    private repository: TransactionRepository = transactionRepository,
+    concurrency: number = parseInt(process.env.DEFERRED_RISK_CONCURRENCY || '2')
+  ) {
+    this.queue = new JobQueue('deferred-risk-assessment', transactionId => this.complete(transactionId), concurrency);
+  }
+
+  enqueue(transaction: Transaction): void {
+    if (transaction.assessmentStatus === 'deferred') {
+      this.queue.enqueue(transaction.id);
+    }
+  }
+
+  drain(): Promise<void> {
+    return this.queue.drain();
+  }
+
+  private async findAwaiting(transactionId: string): Promise<Transaction | null> {
+    const transaction = await this.repository.findById(transactionId);
+
+    if (!transaction || transaction.assessmentStatus !== 'deferred') {
+      logger.warn('Skipping deferred risk assessment', { transactionId, reason: 'transaction not awaiting assessment' });
+      return null;
+    }
+    return transaction;
+  }
+
+  private async complete(transactionId: string): Promise<void> {
+    // The call started during checkout keeps running; only re-assess if it's gone
+    const inFlight = paymentService.takeDeferredAssessment(transactionId);
+    const pending = await this.findAwaiting(transactionId);
+    if (!pending) {
+      return;
+    }
+
+    const assessment = await (inFlight || llmService.assessTransactionRisk(pending));
+
+    // Captures, voids, refunds or reviews may have happened while the model was running,
+    // so the result is applied to a fresh copy that is only saved if it's still current
+    let transaction: Transaction | null = null;
+    let movedToReview = false;
+    for (let attempt = 1; !transaction; attempt++) {
+      const current = await this.findAwaiting(transactionId);
+      if (!current) {
+        return;
+      }
+
+      const expectedUpdatedAt = current.updatedAt;
+      movedToReview = paymentService.applyDeferredAssessment(current, assessment);
+      if (await this.repository.saveIfUnchanged(current, expectedUpdatedAt)) {
+        transaction = current;
+      } else if (attempt >= MAX_SAVE_ATTEMPTS) {
+        logger.warn('Giving up on deferred risk assessment', { transactionId, reason: 'transaction kept changing' });
+        return;
+      }
+    }
+
+    await cacheService.del(cacheService.generateKey('transaction', transaction.id));
+
+    metrics.increment(METRICS.DEFERRED_RISK_ASSESSMENTS, { outcome: movedToReview ? 'review' : 'unchanged' });
+
+    eventPublisher.publish(EVENTS.RISK_ASSESSED, {
+      source: 'DeferredRiskService',
+      transactionId: transaction.id,
+      deferred: true,
+      riskScore: transaction.riskScore,
+      riskLevel: assessment.riskLevel,
+      scoreBreakdown: transaction.scoreBreakdown,
+      status: transaction.status,
+      movedToReview
+    });
+
+    logger.info('Deferred risk assessment completed', {
+      transactionId: transaction.id,
+      riskScore: transaction.riskScore,
+      status: transaction.status,
+      movedToReview
+    });
+  }
+}
+
+export const deferredRiskService = new DeferredRiskService();
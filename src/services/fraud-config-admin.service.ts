@@ -0,0 +1,230 @@
+import {
+  FraudConfigChange,
+  FraudConfigVersion,
+  FraudRule,
+  FraudRuleConfig,
+  ProviderConfig,
+  RiskThresholds,
+  ScoringConfig
+} from '../types';
+import { logger } from '../utils/logger';
+import { eventPublisher, EVENTS } from '../utils/events';
+import { AppError } from '../middleware/error.middleware';
+import { ConfigValidationError, fraudRuleConfigService } from '../config/fraud-rules';
+import { fraudConfigRepository } from '../repositories';
+import { FraudConfigRepository, VersionConflictError } from '../repositories/fraud-config.repository';
+
+/**
+ * Runtime management of fraud rules, providers and thresholds. Every change
+ * is validated, stored as a new config version and then applied to
+ * fraudRuleConfigService. Other instances pick it up on their next sync.
+ */
+export class FraudConfigAdminService {
+  private currentVersion = 0;
+  private timer?: NodeJS.Timeout;
+
+  constructor(
+    private repository: FraudConfigRepository = fraudConfigRepository,
+    private syncIntervalMs: number = parseInt(process.env.FRAUD_CONFIG_SYNC_INTERVAL_MS || '30000')
+  ) {}
+
+  start(): void {
+    if (this.timer) {
+      return;
+    }
+
+    this.timer = setInterval(() => {
+      this.sync().catch((error) => {
+        logger.error('Fraud config sync failed', { error: (error as Error).message });
+      });
+    }, this.syncIntervalMs);
+    this.timer.unref();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  /**
+   * Applies the latest stored version if it is newer than the active one.
+   * Until the first admin change the YAML file stays in charge.
+   */
+  async sync(): Promise<boolean> {
+    const latest = await this.repository.getLatest();
+    if (!latest || latest.version <= this.currentVersion) {
+      return false;
+    }
+
+    fraudRuleConfigService.applyConfig(latest.config);
+    this.currentVersion = latest.version;
+    logger.info('Applied stored fraud config version', { version: latest.version });
+    return true;
+  }
+
+  getConfig(): { version: number; config: FraudRuleConfig } {
+    return { version: this.currentVersion, config: fraudRuleConfigService.getConfig() };
+  }
+
+  async listVersions(limit: number = 50): Promise<FraudConfigVersion[]> {
+    return this.repository.listVersions(limit);
+  }
+
+  async createRule(rule: FraudRule, actor: string): Promise<FraudConfigVersion> {
+    return this.commit(actor, config => {
+      if (config.rules.some(existing => existing.name === rule.name)) {
+        throw new AppError(`Rule ${rule.name} already exists`, 409);
+      }
+      config.rules.push(rule);
+      return { action: 'create', target: 'rule', name: rule.name, after: rule };
+    });
+  }
+
+  async updateRule(name: string, rule: Omit<FraudRule, 'name'>, actor: string): Promise<FraudConfigVersion> {
+    return this.commit(actor, config => {
+      const index = this.findIndex(config.rules, name, 'Rule');
+      const before = config.rules[index];
+      config.rules[index] = { ...rule, name };
+      return { action: 'update', target: 'rule', name, before, after: config.rules[index] };
+    });
+  }
+
+  async setRuleEnabled(name: string, enabled: boolean, actor: string): Promise<FraudConfigVersion> {
+    return this.commit(actor, config => {
+      const rule = config.rules[this.findIndex(config.rules, name, 'Rule')];
+      const before = rule.enabled;
+      rule.enabled = enabled;
+      return { action: enabled ? 'enable' : 'disable', target: 'rule', name, before, after: enabled };
+    });
+  }
+
+  async deleteRule(name: string, actor: string): Promise<FraudConfigVersion> {
+    return this.commit(actor, config => {
+      const [before] = config.rules.splice(this.findIndex(config.rules, name, 'Rule'), 1);
+      return { action: 'delete', target: 'rule', name, before };
+    });
+  }
+
+  async createProvider(provider: ProviderConfig, actor: string): Promise<FraudConfigVersion> {
+    return this.commit(actor, config => {
+      if (config.providers.some(existing => existing.name === provider.name)) {
+        throw new AppError(`Provider ${provider.name} already exists`, 409);
+      }
+      config.providers.push(provider);
+      return { action: 'create', target: 'provider', name: provider.name, after: provider };
+    });
+  }
+
+  async updateProvider(name: string, provider: Omit<ProviderConfig, 'name'>, actor: string): Promise<FraudConfigVersion> {
+    return this.commit(actor, config => {
+      const index = this.findIndex(config.providers, name, 'Provider');
+      const before = config.providers[index];
+      config.providers[index] = { ...provider, name };
+      return { action: 'update', target: 'provider', name, before, after: config.providers[index] };
+    });
+  }
+
+  async setProviderEnabled(name: string, enabled: boolean, actor: string): Promise<FraudConfigVersion> {
+    return this.commit(actor, config => {
+      const provider = config.providers[this.findIndex(config.providers, name, 'Provider')];
+      const before = provider.enabled;
+      provider.enabled = enabled;
+      return { action: enabled ? 'enable' : 'disable', target: 'provider', name, before, after: enabled };
+    });
+  }
+
+  async deleteProvider(name: string, actor: string): Promise<FraudConfigVersion> {
+    return this.commit(actor, config => {
+      const [before] = config.providers.splice(this.findIndex(config.providers, name, 'Provider'), 1);
+      return { action: 'delete', target: 'provider', name, before };
+    });
+  }
+
+  async updateThresholds(thresholds: RiskThresholds, actor: string): Promise<FraudConfigVersion> {
+    return this.commit(actor, config => {
+      const before = config.thresholds;
+      config.thresholds = thresholds;
+      return { action: 'update', target: 'thresholds', before, after: thresholds };
+    });
+  }
+
+  async updateScoring(scoring: ScoringConfig, actor: string): Promise<FraudConfigVersion> {
+    return this.commit(actor, config => {
+      const before = config.scoring;
+      config.scoring = scoring;
+      return { action: 'update', target: 'scoring', before, after: scoring };
+    });
+  }
+
+  private findIndex(items: Array<{ name: string }>, name: string, label: string): number {
+    const index = items.findIndex(item => item.name === name);
+    if (index === -1) {
+      throw new AppError(`${label} ${name} not found`, 404);
+    }
+    return index;
+  }
+
+  private async commit(
+    actor: string,
+    mutate: (config: FraudRuleConfig) => FraudConfigChange
+  ): Promise<FraudConfigVersion> {
+    // Build on the newest stored version so edits from other instances aren't lost
+    await this.sync();
+
+    const candidate = fraudRuleConfigService.getConfig();
+    const change = mutate(candidate);
+
+    let config: FraudRuleConfig;
+    try {
+      config = fraudRuleConfigService.validateConfig(candidate);
+    } catch (error) {
+      if (error instanceof ConfigValidationError) {
+        throw new AppError(error.message, 422);
+      }
+      throw error;
+    }
+
+    const version: FraudConfigVersion = {
+      version: this.currentVersion + 1,
+      config,
+      changedBy: actor,
+      change,
+      createdAt: new Date()
+    };
+
+    try {
+      await this.repository.saveVersion(version);
+    } catch (error) {
+      if (error instanceof VersionConflictError) {
+        throw new AppError('Fraud config was changed concurrently; retry the request', 409);
+      }
+      throw error;
+    }
+
+    fraudRuleConfigService.applyConfig(config);
+    this.currentVersion = version.version;
+
+    logger.info('Fraud config changed', {
+      version: version.version,
+      changedBy: actor,
+      action: change.action,
+      target: change.target,
+      name: change.name
+    });
+
+    eventPublisher.publish(EVENTS.FRAUD_CONFIG_UPDATED, {
+      source: 'FraudConfigAdminService',
+      version: version.version,
+      changedBy: actor,
+      action: change.action,
+      target: change.target,
+      name: change.name
+    });
+
+    return version;
+  }
+}
+
+export const fraudConfigAdminService = new FraudConfigAdminService();
@@ -1,88 +1,95 @@
-import axios, { AxiosInstance } from 'axios';
 import { CircuitBreaker } from '../utils/circuit-breaker';
 import { retryService } from '../utils/retry';
+import { Deadline, withTimeout } from '../utils/timeout';
+import { LatencyTracker } from '../utils/latency-tracker';
+import { metrics, METRICS } from '../utils/metrics';
 import { Transaction, RiskAssessment } from '../types';
 import { logger } from '../utils/logger';
 import { eventPublisher, EVENTS } from '../utils/events';
-import { cacheService } from './cache.service';
+import { riskCacheService } from './risk-cache.service';
+import { fraudRuleConfigService } from '../config/fraud-rules';
+import { createHedgeRiskModelProvider, createRiskModelProvider } from '../risk-models';
+import { InvalidRiskResponseError, RiskModelProvider } from '../risk-models/risk-model-provider';
 
-export class LLMService {
-  private client: AxiosInstance;
-  private circuitBreaker: CircuitBreaker;
+const RISK_LEVELS: RiskAssessment['riskLevel'][] = ['LOW', 'MEDIUM', 'HIGH', 'CRITICAL'];
+// Confidence lost per level between the reported level and the one implied by the score
+const LEVEL_MISMATCH_PENALTY = 0.4;
 
-  constructor() {
-    // Determine LM-Studio base URL (no trailing slash, no /v1 suffix)
-    let baseURL = process.env.LM_STUDIO_URL || 'http://localhost:1234';
-    // Replace localhost with 127.0.0.1 to avoid IPv6 (::1) resolution issues
-    if (baseURL.startsWith('http://localhost')) {
-      baseURL = baseURL.replace('http://localhost', 'http://127.0.0.1');
-    }
+export interface AssessmentOptions {
+  // Overall budget for the assessment, including retries and hedging
+  deadline?: Deadline;
+}
 
-    // strip any trailing slash
-    baseURL = baseURL.replace(/\/$/, '');
-    // strip a trailing /v1 if the user already added it
-    baseURL = baseURL.replace(/\/v1$/i, '');
+interface ModelResult {
+  assessment: RiskAssessment;
+  model: string;
+  provider: RiskModelProvider;
+}
 
-    logger.info(`LLMService using LM Studio endpoint at ${baseURL}`);
-    
-    this.client = axios.create({
-      // Append single /v1 API prefix
-      baseURL: `${baseURL}/v1`,
-      headers: {
-        'Content-Type': 'application/json'
-        // LM Studio doesn't require authentication for local usage
-      },
-      // Allow longer timeout for local LM Studio; configurable via env
-      timeout: parseInt(process.env.LM_STUDIO_TIMEOUT || '90000')
-    });
+export class LLMService {
+  private circuitBreaker: CircuitBreaker;
+  private hedgeBreaker?: CircuitBreaker;
+  private primaryLatency = new LatencyTracker();
+  // Hedge once the primary is slower than this share of its recent calls
+  private hedgePercentile = parseFloat(process.env.RISK_MODEL_HEDGE_PERCENTILE || '95');
+  // Used until enough primary latencies were recorded for the percentile
+  private hedgeDelayMs = parseInt(process.env.RISK_MODEL_HEDGE_DELAY_MS || '2000');
 
-    this.circuitBreaker = new CircuitBreaker('LLMService', {
-      failureThreshold: parseInt(process.env.CIRCUIT_BREAKER_FAILURE_THRESHOLD || '5'),
-      resetTimeout: parseInt(process.env.CIRCUIT_BREAKER_RESET_TIMEOUT || '30000'),
-      monitoringPeriod: 60000
-    });
+  // The backend is chosen by RISK_MODEL_PROVIDER; each gets its own breaker and timeout
+  constructor(
+    private provider: RiskModelProvider = createRiskModelProvider(),
+    private hedgeProvider: RiskModelProvider | undefined = createHedgeRiskModelProvider()
+  ) {
+    this.circuitBreaker = this.createBreaker(provider);
+    if (hedgeProvider) {
+      this.hedgeBreaker = this.createBreaker(hedgeProvider);
+    }
   }
 
-  async assessTransactionRisk(transaction: Transaction): Promise<RiskAssessment> {
+  async assessTransactionRisk(transaction: Transaction, options: AssessmentOptions = {}): Promise<RiskAssessment> {
     // Allow disabling LLM integration (useful for local dev without LM Studio running)
     if (process.env.LLM_DISABLED === 'true') {
       logger.warn('LLM integration disabled via LLM_DISABLED=true env var');
       return this.getFallbackResponse(transaction);
     }
 
-    const cacheKey = cacheService.generateKey('risk_assessment', transaction.id);
-    
     // Check cache first
-    const cachedResult = await cacheService.get<RiskAssessment>(cacheKey);
+    const cachedResult = await riskCacheService.get(transaction, this.provider);
     if (cachedResult) {
       logger.debug('Risk assessment retrieved from cache', { transactionId: transaction.id });
       return cachedResult;
     }
 
     try {
-      const assessment = await this.circuitBreaker.execute(async () => {
-        return await retryService.execute(() => this.callLMStudio(transaction));
-      });
+      const { assessment: modelAssessment, model, provider } = await this.assessWithHedging(transaction, options.deadline);
+      const assessment = this.reconcile(modelAssessment, model);
 
-      // Cache the result
-      await cacheService.set(cacheKey, assessment, 3600); // 1 hour cache
+      // Lookups are keyed by the primary, so a hedge answer is not cached in its place
+      if (provider === this.provider) {
+        await riskCacheService.set(transaction, this.provider, assessment);
+      }
 
       eventPublisher.publish(EVENTS.RISK_ASSESSED, {
         source: 'LLMService',
         transactionId: transaction.id,
-        riskLevel: assessment.riskLevel
+        riskLevel: assessment.riskLevel,
+        confidence: assessment.confidence,
+        promptVersion: assessment.promptVersion,
+        model
       });
 
       return assessment;
     } catch (error) {
       logger.error('LLM risk assessment failed', { 
         transactionId: transaction.id, 
+        model: this.provider.name,
         error: (error as Error).message 
       });
 
       eventPublisher.publish(EVENTS.LLM_CALL_FAILED, {
         source: 'LLMService',
         transactionId: transaction.id,
+        model: this.provider.name,
         error: (error as Error).message
       });
 
@@ -90,117 +97,150 @@ export class LLMService {
     }
   }
 
-  private async callLMStudio(transaction: Transaction): Promise<RiskAssessment> {
-    const prompt = this.buildRiskAssessmentPrompt(transaction);
-    
-    try {
-      const response = await this.client.post('/chat/completions', {
-        model: process.env.LM_STUDIO_MODEL,
-        messages: [
-          {
-            role: 'system',
-            content: 'You are a financial risk assessment expert. Analyze the transaction and provide a detailed risk assessment in JSON format.'
-          },
-          {
-            role: 'user',
-            content: prompt
-          }
-        ],
-        max_tokens: parseInt(process.env.LM_STUDIO_MAX_TOKENS || '500'),
-        temperature: parseFloat(process.env.LM_STUDIO_TEMPERATURE || '0.7'),
-        stream: false
-      });
+  private createBreaker(provider: RiskModelProvider): CircuitBreaker {
+    return new CircuitBreaker(`RiskModel:${provider.name}`, {
+      failureThreshold: provider.settings.failureThreshold,
+      resetTimeout: provider.settings.resetTimeout,
+      monitoringPeriod: 60000
+    });
+  }
 
-      return this.parseLMStudioResponse(response.data.choices[0].message.content, transaction);
-    } catch (error: any) {
-      // Enhanced error handling for LM Studio API
-      if (error.code === 'ECONNREFUSED') {
-        const baseURL = process.env.LM_STUDIO_URL || 'http://localhost:1234';
-        logger.error('LM Studio connection refused', { 
-          message: `Cannot connect to LM Studio at ${baseURL}.\n` +
-                   '• Ensure LM Studio is running (default port 1234).\n' +
-                   '• Open LM Studio, load a model (e.g. "qwen2.5-coder-1.5b-instruct"), then click "Open Web API".',
-          transactionId: transaction.id 
-        });
-        throw new Error('LM Studio server is not running. Please start LM Studio and load a model.');
-      }
-      
-      if (error.response?.data?.error) {
-        const apiError = error.response.data.error;
-        logger.error('LM Studio API error details', { 
-          message: apiError.message,
-          type: apiError.type,
-          code: apiError.code,
-          transactionId: transaction.id 
-        });
-      }
-      throw error;
-    }
+  private callModel(
+    provider: RiskModelProvider,
+    breaker: CircuitBreaker,
+    transaction: Transaction,
+    deadline?: Deadline
+  ): Promise<RiskAssessment> {
+    const { timeoutMs } = provider.settings;
+    const message = `Risk model ${provider.name} timed out after ${timeoutMs}ms`;
+
+    return breaker.execute(() => retryService.execute(() => {
+      const call = provider.assess(transaction);
+      return deadline ? deadline.bound(call, timeoutMs, message) : withTimeout(call, timeoutMs, message);
+    }, {
+      // Invalid answers were already retried with a corrective prompt
+      shouldRetry: error => !(error instanceof InvalidRiskResponseError),
+      deadline
+    }), deadline);
   }
 
-  private buildRiskAssessmentPrompt(transaction: Transaction): string {
-    return `
-      Analyze this payment transaction for fraud risk:
-      
-      Transaction Details:
-      - Amount: ${transaction.amount} ${transaction.currency}
-      - Payment Source: ${transaction.source}
-      - Customer Email: ${transaction.email}
-      - Transaction Time: ${transaction.createdAt.toISOString()}
-      
-      Please provide a risk assessment with:
-      1. Risk score (0.0 to 1.0)
-      2. Risk level (LOW, MEDIUM, HIGH, CRITICAL)
-      3. Explanation of the assessment
-      4. Key risk factors identified
-      5. Recommendations for handling this transaction
-      
-      Consider factors like:
-      - Transaction amount relative to normal patterns
-      - Email domain legitimacy
-      - Payment source token patterns
-      - Time-based patterns
-      
-      Respond only with valid JSON in this format:
-      {
-        "riskScore": 0.15,
-        "riskLevel": "LOW",
-        "explanation": "Low risk transaction based on normal amount and legitimate email domain",
-        "factors": [
-          {
-            "factor": "amount_normal",
-            "weight": 0.1,
-            "description": "Transaction amount within normal range"
-          }
-        ],
-        "recommendations": ["Process normally"]
-      }
-    `;
+  private async callPrimary(transaction: Transaction, deadline?: Deadline): Promise<ModelResult> {
+    const startedAt = Date.now();
+    const assessment = await this.callModel(this.provider, this.circuitBreaker, transaction, deadline);
+    this.primaryLatency.record(Date.now() - startedAt);
+    return { assessment, model: this.provider.name, provider: this.provider };
   }
 
-  private parseLMStudioResponse(content: string, transaction: Transaction): RiskAssessment {
-    try {
-      // Some models wrap JSON in markdown fences ```json ... ``` – strip them
-      const cleaned = content
-        .trim()
-        .replace(/^```(?:json)?/i, '')
-        .replace(/```$/i, '')
-        .trim();
-      const parsed = JSON.parse(cleaned);
-      
-      return {
-        transactionId: transaction.id,
-        riskScore: parsed.riskScore,
-        riskLevel: parsed.riskLevel,
-        explanation: parsed.explanation,
-        factors: parsed.factors || [],
-        recommendations: parsed.recommendations || [],
-        assessedAt: new Date()
+  /**
+   * With a hedge backend configured, a second request goes to it once the
+   * primary is slower than usual (or has failed), and the first answer wins.
+   * The slower call isn't cancelled; its result is simply ignored.
+   */
+  private assessWithHedging(transaction: Transaction, deadline?: Deadline): Promise<ModelResult> {
+    const primary = this.callPrimary(transaction, deadline);
+    const hedgeProvider = this.hedgeProvider;
+    const hedgeBreaker = this.hedgeBreaker;
+    if (!hedgeProvider || !hedgeBreaker) {
+      return primary;
+    }
+
+    const hedgeDelay = this.primaryLatency.percentile(this.hedgePercentile) ?? this.hedgeDelayMs;
+
+    return new Promise<ModelResult>((resolve, reject) => {
+      let settled = false;
+      let hedged = false;
+      let primaryError: Error | undefined;
+      let hedgeFailed = false;
+
+      const win = (result: ModelResult) => {
+        if (settled) {
+          return;
+        }
+        settled = true;
+        clearTimeout(timer);
+        if (hedged) {
+          metrics.increment(METRICS.RISK_MODEL_HEDGES, {
+            provider: hedgeProvider.name,
+            winner: result.provider === hedgeProvider ? 'hedge' : 'primary'
+          });
+        }
+        resolve(result);
       };
-    } catch (error) {
-      logger.error('Failed to parse LM Studio response', { error, content });
-      return this.getFallbackResponse(transaction);
+
+      const startHedge = () => {
+        if (hedged || settled) {
+          return;
+        }
+        hedged = true;
+        clearTimeout(timer);
+        logger.info('Sending hedged risk assessment request', {
+          transactionId: transaction.id,
+          primary: this.provider.name,
+          hedge: hedgeProvider.name,
+          afterMs: hedgeDelay
+        });
+
+        this.callModel(hedgeProvider, hedgeBreaker, transaction, deadline).then(
+          assessment => win({ assessment, model: hedgeProvider.name, provider: hedgeProvider }),
+          (error) => {
+            hedgeFailed = true;
+            logger.warn('Hedged risk assessment request failed', {
+              transactionId: transaction.id,
+              model: hedgeProvider.name,
+              error: (error as Error).message
+            });
+            if (primaryError && !settled) {
+              settled = true;
+              reject(primaryError);
+            }
+          }
+        );
+      };
+
+      const timer = setTimeout(startHedge, hedgeDelay);
+
+      primary.then(win, (error) => {
+        primaryError = error as Error;
+        if (hedgeFailed && !settled) {
+          settled = true;
+          reject(primaryError);
+        } else {
+          // No point waiting out the delay once the primary has given up
+          startHedge();
+        }
+      });
+    });
+  }
+
+  /**
+   * The score drives every decision, so the level is re-derived from it using
+   * the configured thresholds. The further the model's own level was off, the
+   * less the answer is trusted.
+   */
+  private reconcile(assessment: RiskAssessment, model: string): RiskAssessment {
+    const expected = fraudRuleConfigService.riskLevelForScore(assessment.riskScore);
+    const distance = Math.abs(RISK_LEVELS.indexOf(expected) - RISK_LEVELS.indexOf(assessment.riskLevel));
+
+    if (distance === 0) {
+      return { ...assessment, confidence: 1 };
     }
+
+    const confidence = Math.round(Math.max(0, 1 - distance * LEVEL_MISMATCH_PENALTY) * 100) / 100;
+    logger.warn('Risk model level disagrees with its score', {
+      transactionId: assessment.transactionId,
+      model,
+      riskScore: assessment.riskScore,
+      reportedRiskLevel: assessment.riskLevel,
+      expectedRiskLevel: expected,
+      confidence
+    });
+
+    return {
+      ...assessment,
+      riskLevel: expected,
+      reportedRiskLevel: assessment.riskLevel,
+      confidence
+    };
   }
 
   private getFallbackResponse(transaction: Transaction): RiskAssessment {
@@ -222,6 +262,7 @@ export class LLMService {
         }
       ],
       recommendations: ['Manual review required', 'Check LLM service configuration', 'Consider declining if high value'],
+      fallback: true,
       assessedAt: new Date()
     };
   }
@@ -1,16 +1,64 @@
-import { Transaction, TransactionStatus } from '../types';
+import { Refund, RiskAssessment, Transaction, TransactionStatus } from '../types';
 import { llmService } from './llm.service';
+import { velocityService } from './velocity.service';
 import { logger } from '../utils/logger';
 import { eventPublisher, EVENTS } from '../utils/events';
 import { fraudRuleConfigService } from '../config/fraud-rules';
+import { providerRegistry } from '../providers/provider.registry';
+import { PaymentProvider, ProviderError, ProviderResult, ProviderResultStatus } from '../providers/payment-provider';
+import { CircuitBreaker } from '../utils/circuit-breaker';
+import { Deadline, TimeoutError, withTimeout } from '../utils/timeout';
+import { generateRefundId } from '../utils/uuid';
+import { metrics, METRICS } from '../utils/metrics';
+import { combineScores } from '../utils/score-combiners';
+import { AppError } from '../middleware/error.middleware';
+import { nextUpdatedAt } from '../repositories/transaction.repository';
+
+const REFUNDABLE_STATUSES = [TransactionStatus.SUCCESS, TransactionStatus.PARTIALLY_REFUNDED];
+// Open authorizations and payments the provider hasn't settled yet
+const VOIDABLE_STATUSES = [TransactionStatus.AUTHORIZED, TransactionStatus.PROCESSING];
+const MIN_MODEL_CONFIDENCE = parseFloat(process.env.RISK_MODEL_MIN_CONFIDENCE || '0.5');
+const LOW_CONFIDENCE_REVIEW_TRIGGER = 'low_confidence_risk_model';
+const DEFERRED_REVIEW_TRIGGER = 'deferred_risk_model';
+// Charged or authorized transactions a late risk assessment can still hold for review
+const DEFERRED_REVIEWABLE_STATUSES = [TransactionStatus.SUCCESS, TransactionStatus.PROCESSING, TransactionStatus.AUTHORIZED];
+const AUTHORIZATION_EXPIRY_MS = parseInt(process.env.AUTHORIZATION_EXPIRY_HOURS || '168') * 60 * 60 * 1000;
+
+// The capture may have gone through and its authorization could not be voided, so no other provider may be charged
+class UnresolvedChargeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UnresolvedChargeError';
+  }
+}
 
 export class PaymentService {
+  private providerBreakers: Map<string, CircuitBreaker> = new Map();
+  private providerTimeout = parseInt(process.env.PROVIDER_TIMEOUT_MS || '10000');
+  // async: decide on rules when the risk model misses the latency budget and finish its assessment later
+  private assessmentMode = process.env.RISK_ASSESSMENT_MODE || 'sync';
+  private latencyBudgetMs = parseInt(process.env.RISK_ASSESSMENT_LATENCY_BUDGET_MS || '2000');
+  // Hard limit for a synchronous assessment, retries included; 0 leaves it to the model timeouts
+  private assessmentDeadlineMs = parseInt(process.env.RISK_ASSESSMENT_DEADLINE_MS || '0');
+  private deferredAssessments: Map<string, Promise<RiskAssessment>> = new Map();
+
   async processTransaction(transaction: Transaction): Promise<Transaction> {
     try {
       logger.info('Processing transaction', { transactionId: transaction.id });
 
-      // Apply fraud rule-based assessment
-      const fraudAssessment = fraudRuleConfigService.evaluateRiskFromRules(transaction);
+      // Apply fraud rule-based assessment, including derived velocity fields
+      const velocity = await velocityService.recordAndCount(transaction);
+      const fraudAssessment = fraudRuleConfigService.evaluateRiskFromRules({ ...transaction, ...velocity });
+      this.recordRuleMatches(fraudAssessment);
+
+      // Shadow matches are kept for tuning only; they never change the outcome
+      if (fraudAssessment.shadowRules.length > 0) {
+        transaction.shadowRules = fraudAssessment.shadowRules;
+        logger.info('Shadow fraud rules matched', {
+          transactionId: transaction.id,
+          shadowRules: fraudAssessment.shadowRules.map(match => match.rule)
+        });
+      }
       
       // Check if transaction should be blocked by fraud rules
       if (fraudAssessment.blockedRules.length > 0) {
@@ -29,29 +77,81 @@ export class PaymentService {
       }
 
       // Perform LLM risk assessment
-      let finalRiskScore = fraudAssessment.score;
+      const scoring = fraudRuleConfigService.getScoring();
+      let modelScore: number | undefined;
+      let promptVersion: string | undefined;
       let explanation = 'Transaction assessed using configurable fraud rules';
 
-      try {
-        const riskAssessment = await llmService.assessTransactionRisk(transaction);
-        // Combine fraud rule score with LLM assessment
-        finalRiskScore = Math.max(fraudAssessment.score, riskAssessment.riskScore);
-        explanation = riskAssessment.explanation;
-      } catch (error) {
-        logger.warn('LLM assessment failed, using fraud rules only', {
-          transactionId: transaction.id,
-          error: (error as Error).message
-        });
+      let riskFactors = fraudAssessment.factors;
+      const reviewReasons = fraudAssessment.reviewRules.length > 0
+        ? [`fraud rules: ${fraudAssessment.reviewRules.join(', ')}`]
+        : [];
+      const reviewTriggers = [...fraudAssessment.reviewRules];
+
+      // The model isn't consulted at all when only the rules count
+      if (scoring.strategy !== 'rules_only') {
+        try {
+          const riskAssessment = await this.assessWithinBudget(transaction);
+
+          if (!riskAssessment) {
+            explanation = 'Transaction assessed using configurable fraud rules; risk model assessment deferred';
+            transaction.assessmentStatus = 'deferred';
+          } else {
+            const interpreted = this.interpretAssessment(transaction, riskAssessment);
+            modelScore = interpreted.modelScore;
+            promptVersion = riskAssessment.promptVersion;
+            explanation = interpreted.explanation;
+            riskFactors = [...fraudAssessment.factors, ...interpreted.factors];
+            if (interpreted.reviewReason) {
+              reviewReasons.push(interpreted.reviewReason);
+              reviewTriggers.push(LOW_CONFIDENCE_REVIEW_TRIGGER);
+            }
+          }
+        } catch (error) {
+          logger.warn('LLM assessment failed, using fraud rules only', {
+            transactionId: transaction.id,
+            error: (error as Error).message
+          });
+        }
       }
 
+      // Combine fraud rule score with LLM assessment
+      const scoreBreakdown = combineScores(scoring, fraudAssessment.score, modelScore);
+      if (promptVersion) {
+        scoreBreakdown.promptVersion = promptVersion;
+      }
+      const finalRiskScore = scoreBreakdown.combinedScore;
+
       // Select provider based on risk score
       const selectedProvider = fraudRuleConfigService.selectProvider(finalRiskScore);
       
       // Update transaction with results
       transaction.riskScore = finalRiskScore;
+      transaction.scoreBreakdown = scoreBreakdown;
       transaction.explanation = explanation;
+      transaction.riskFactors = riskFactors;
       transaction.provider = selectedProvider;
-      transaction.status = this.determineTransactionStatus(finalRiskScore);
+
+      // Review rules and untrusted high-risk model answers hold the transaction regardless of score
+      const forceReview = reviewReasons.length > 0;
+      if (forceReview) {
+        transaction.explanation = `${explanation}. Held for manual review by ${reviewReasons.join('; ')}`;
+      }
+
+      // Only charge the provider when the risk decision allows it
+      const riskStatus = forceReview ? TransactionStatus.PENDING : this.determineTransactionStatus(finalRiskScore);
+      if (riskStatus === TransactionStatus.SUCCESS || riskStatus === TransactionStatus.PROCESSING) {
+        await this.chargeWithFailover(finalRiskScore, transaction);
+      } else {
+        transaction.status = riskStatus;
+        if (riskStatus === TransactionStatus.PENDING) {
+          transaction.review = {
+            status: 'pending',
+            queuedAt: new Date(),
+            triggeredBy: forceReview ? reviewTriggers : undefined
+          };
+        }
+      }
       transaction.updatedAt = new Date();
 
       // Publish events
@@ -59,14 +159,16 @@ export class PaymentService {
         source: 'PaymentService',
         transactionId: transaction.id,
         status: transaction.status,
-        provider: selectedProvider,
-        riskScore: finalRiskScore
+        provider: transaction.provider,
+        riskScore: finalRiskScore,
+        scoreBreakdown,
+        shadowRules: (transaction.shadowRules || []).map(match => match.rule)
       });
 
       logger.info('Transaction processed successfully', {
         transactionId: transaction.id,
         status: transaction.status,
-        provider: selectedProvider,
+        provider: transaction.provider,
         riskScore: finalRiskScore
       });
 
@@ -77,6 +179,8 @@ export class PaymentService {
         error: (error as Error).message
       });
       
+      this.deferredAssessments.delete(transaction.id);
+      transaction.assessmentStatus = undefined;
       transaction.status = TransactionStatus.FAILED;
       transaction.riskScore = 1.0;
       transaction.explanation = 'Transaction processing failed due to system error';
@@ -87,6 +191,576 @@ export class PaymentService {
     }
   }
 
+  /**
+   * Hands over the model assessment still running for a deferred transaction.
+   * Undefined once taken, or after a restart.
+   */
+  takeDeferredAssessment(transactionId: string): Promise<RiskAssessment> | undefined {
+    const assessment = this.deferredAssessments.get(transactionId);
+    this.deferredAssessments.delete(transactionId);
+    return assessment;
+  }
+
+  /**
+   * Folds a late risk model assessment into a transaction decided on rules.
+   * The decision itself stands, but a score at or above the high threshold
+   * holds a charged or authorized transaction for manual review.
+   * Returns true when the transaction was moved to review.
+   */
+  applyDeferredAssessment(transaction: Transaction, assessment: RiskAssessment): boolean {
+    const scoring = fraudRuleConfigService.getScoring();
+    const ruleScore = transaction.scoreBreakdown?.ruleScore ?? transaction.riskScore ?? 0;
+    const interpreted = this.interpretAssessment(transaction, assessment);
+    const scoreBreakdown = combineScores(scoring, ruleScore, interpreted.modelScore);
+    if (assessment.promptVersion) {
+      scoreBreakdown.promptVersion = assessment.promptVersion;
+    }
+
+    transaction.riskScore = scoreBreakdown.combinedScore;
+    transaction.scoreBreakdown = scoreBreakdown;
+    transaction.riskFactors = [...(transaction.riskFactors || []), ...interpreted.factors];
+    transaction.assessmentStatus = 'completed';
+    transaction.updatedAt = new Date();
+
+    const highRisk = scoreBreakdown.combinedScore >= fraudRuleConfigService.getThresholds().high;
+    if (!(highRisk || interpreted.reviewReason) || !DEFERRED_REVIEWABLE_STATUSES.includes(transaction.status)) {
+      return false;
+    }
+
+    const reason = interpreted.reviewReason || `deferred risk model score ${scoreBreakdown.combinedScore}`;
+    transaction.explanation = `${interpreted.explanation}. Held for manual review after the decision by ${reason}`;
+    transaction.review = {
+      status: 'pending',
+      queuedAt: new Date(),
+      triggeredBy: [interpreted.reviewReason ? LOW_CONFIDENCE_REVIEW_TRIGGER : DEFERRED_REVIEW_TRIGGER],
+      previousStatus: transaction.status
+    };
+    transaction.status = TransactionStatus.PENDING;
+    return true;
+  }
+
+  async refundTransaction(
+    transaction: Transaction,
+    amount?: number,
+    reason?: string,
+    requestedBy?: string
+  ): Promise<Refund> {
+    const reserved = this.reserveRefund(transaction, amount, reason, requestedBy);
+
+    try {
+      const refund = await this.executeRefund(transaction, reserved);
+      this.settleRefund(transaction, refund);
+      return refund;
+    } catch (error) {
+      this.releaseRefund(transaction, reserved.id);
+      throw error;
+    }
+  }
+
+  /**
+   * Records a pending refund so it counts against the refundable amount
+   * before the provider is called. Callers that persist the reservation
+   * with a conditional save keep concurrent refunds from exceeding the
+   * captured amount.
+   */
+  reserveRefund(transaction: Transaction, amount?: number, reason?: string, requestedBy?: string): Refund {
+    if (!REFUNDABLE_STATUSES.includes(transaction.status) || !transaction.provider) {
+      throw new AppError(`Transaction in status ${transaction.status} cannot be refunded`, 409);
+    }
+
+    const capturedAmount = transaction.capturedAmount ?? transaction.amount;
+    const reservedSoFar = (transaction.refunds || []).reduce((total, refund) => total + refund.amount, 0);
+    const remaining = capturedAmount - reservedSoFar;
+    const refundAmount = amount ?? remaining;
+
+    if (refundAmount <= 0 || refundAmount > remaining) {
+      throw new AppError(`Refund amount exceeds remaining refundable amount of ${remaining}`, 422);
+    }
+
+    const refund: Refund = {
+      id: generateRefundId(),
+      amount: refundAmount,
+      status: 'pending',
+      reason,
+      requestedBy,
+      createdAt: new Date()
+    };
+
+    transaction.refunds = [...(transaction.refunds || []), refund];
+    transaction.updatedAt = nextUpdatedAt(transaction.updatedAt);
+    return refund;
+  }
+
+  // Calls the provider for a reserved refund and returns it completed; the transaction isn't changed
+  async executeRefund(transaction: Transaction, reserved: Refund): Promise<Refund> {
+    const providerName = transaction.provider as string;
+    const result = await this.callProvider(transaction, 'refund', provider =>
+      provider.refund(transaction, reserved.amount)
+    );
+
+    if (result.status === 'declined') {
+      throw new AppError(`Refund declined by ${providerName}: ${result.message || 'no reason given'}`, 422);
+    }
+
+    return { ...reserved, status: 'completed', providerReference: result.reference };
+  }
+
+  settleRefund(transaction: Transaction, refund: Refund): void {
+    const capturedAmount = transaction.capturedAmount ?? transaction.amount;
+
+    transaction.refunds = (transaction.refunds || []).map(entry => (entry.id === refund.id ? refund : entry));
+    transaction.status = this.getRefundedAmount(transaction) >= capturedAmount
+      ? TransactionStatus.REFUNDED
+      : TransactionStatus.PARTIALLY_REFUNDED;
+    transaction.updatedAt = nextUpdatedAt(transaction.updatedAt);
+
+    eventPublisher.publish(EVENTS.TRANSACTION_REFUNDED, {
+      source: 'PaymentService',
+      transactionId: transaction.id,
+      refundId: refund.id,
+      amount: refund.amount,
+      status: transaction.status,
+      provider: transaction.provider
+    });
+
+    logger.info('Transaction refunded', {
+      transactionId: transaction.id,
+      refundId: refund.id,
+      amount: refund.amount,
+      status: transaction.status
+    });
+  }
+
+  releaseRefund(transaction: Transaction, refundId: string): void {
+    transaction.refunds = (transaction.refunds || []).filter(refund => refund.id !== refundId);
+    transaction.updatedAt = nextUpdatedAt(transaction.updatedAt);
+  }
+
+  // Refunds still awaiting the provider don't count
+  getRefundedAmount(transaction: Transaction): number {
+    return (transaction.refunds || [])
+      .filter(refund => refund.status !== 'pending')
+      .reduce((total, refund) => total + refund.amount, 0);
+  }
+
+  async captureTransaction(transaction: Transaction, amount?: number): Promise<Transaction> {
+    this.assertAuthorized(transaction);
+
+    // Releasing the hold is left to the authorization expiry sweep
+    if (this.isAuthorizationExpired(transaction)) {
+      throw new AppError('Authorization has expired and can no longer be captured', 409);
+    }
+
+    const captureAmount = amount ?? transaction.amount;
+    if (captureAmount > transaction.amount) {
+      throw new AppError(`Capture amount exceeds authorized amount of ${transaction.amount}`, 422);
+    }
+
+    const result = await this.callProvider(transaction, 'capture', provider =>
+      provider.capture(transaction, captureAmount)
+    );
+
+    if (result.status === 'declined') {
+      throw new AppError(`Capture declined by ${transaction.provider}: ${result.message || 'no reason given'}`, 422);
+    }
+
+    this.applyCapture(transaction, captureAmount, this.mapProviderStatus(result.status));
+    this.publishUpdate(transaction, 'captured');
+    return transaction;
+  }
+
+  async voidTransaction(transaction: Transaction): Promise<Transaction> {
+    if (!VOIDABLE_STATUSES.includes(transaction.status) || !transaction.provider) {
+      throw new AppError(`Transaction in status ${transaction.status} cannot be voided`, 409);
+    }
+
+    const result = await this.callProvider(transaction, 'void', provider => provider.void(transaction));
+
+    if (result.status === 'declined') {
+      throw new AppError(`Void declined by ${transaction.provider}: ${result.message || 'no reason given'}`, 422);
+    }
+
+    this.applyVoid(transaction);
+    this.publishUpdate(transaction, 'voided');
+    return transaction;
+  }
+
+  /**
+   * Releases an expired authorization at the provider and marks it expired.
+   * Returns false and leaves the transaction alone when the provider did not
+   * confirm the void, e.g. because the payment was captured there after all.
+   */
+  async expireAuthorization(transaction: Transaction): Promise<boolean> {
+    try {
+      const result = await this.callProvider(transaction, 'void', provider => provider.void(transaction));
+      if (result.status !== 'approved') {
+        logger.error('Provider refused to release expired authorization; reconcile it with the provider', {
+          transactionId: transaction.id,
+          provider: transaction.provider,
+          reference: transaction.providerReference,
+          message: result.message
+        });
+        return false;
+      }
+    } catch (error) {
+      // Tried again on the next sweep
+      logger.warn('Failed to release expired authorization at provider', {
+        transactionId: transaction.id,
+        error: (error as Error).message
+      });
+      return false;
+    }
+
+    this.applyExpiry(transaction);
+    this.publishUpdate(transaction, 'expired');
+    return true;
+  }
+
+  // The apply* methods record an outcome the provider already confirmed, also on a copy re-read after a concurrent change
+  applyCapture(transaction: Transaction, capturedAmount: number, status: TransactionStatus): void {
+    this.setProviderStatus(transaction, status);
+    transaction.capturedAmount = capturedAmount;
+    transaction.authorizationExpiresAt = undefined;
+    transaction.updatedAt = nextUpdatedAt(transaction.updatedAt);
+  }
+
+  applyVoid(transaction: Transaction): void {
+    this.setProviderStatus(transaction, TransactionStatus.VOIDED);
+    transaction.authorizationExpiresAt = undefined;
+    transaction.updatedAt = nextUpdatedAt(transaction.updatedAt);
+  }
+
+  applyExpiry(transaction: Transaction): void {
+    this.setProviderStatus(transaction, TransactionStatus.EXPIRED);
+    transaction.updatedAt = nextUpdatedAt(transaction.updatedAt);
+  }
+
+  // A transaction held for review keeps its hold; the new status is what approving the review releases
+  private setProviderStatus(transaction: Transaction, status: TransactionStatus): void {
+    if (transaction.status === TransactionStatus.PENDING && transaction.review?.previousStatus) {
+      transaction.review.previousStatus = status;
+    } else {
+      transaction.status = status;
+    }
+  }
+
+  isAuthorizationExpired(transaction: Transaction, now: Date = new Date()): boolean {
+    return !!transaction.authorizationExpiresAt && transaction.authorizationExpiresAt <= now;
+  }
+
+  private assertAuthorized(transaction: Transaction): void {
+    if (transaction.status !== TransactionStatus.AUTHORIZED || !transaction.provider) {
+      throw new AppError(`Transaction in status ${transaction.status} is not an open authorization`, 409);
+    }
+  }
+
+  private publishUpdate(transaction: Transaction, action: string): void {
+    eventPublisher.publish(EVENTS.TRANSACTION_UPDATED, {
+      source: 'PaymentService',
+      transactionId: transaction.id,
+      action,
+      status: transaction.status,
+      provider: transaction.provider
+    });
+
+    logger.info(`Transaction ${action}`, { transactionId: transaction.id, status: transaction.status });
+  }
+
+  private async callProvider(
+    transaction: Transaction,
+    operation: string,
+    call: (provider: PaymentProvider) => Promise<ProviderResult>
+  ): Promise<ProviderResult> {
+    const providerName = transaction.provider as string;
+
+    try {
+      return await this.getProviderBreaker(providerName).execute(() =>
+        withTimeout(
+          call(providerRegistry.getProvider(providerName)),
+          this.providerTimeout,
+          `Provider ${providerName} ${operation} timed out`
+        )
+      );
+    } catch (error) {
+      logger.error(`Provider ${operation} failed`, {
+        transactionId: transaction.id,
+        provider: providerName,
+        error: (error as Error).message
+      });
+      throw new AppError(`${operation} failed at provider ${providerName}`, 502);
+    }
+  }
+
+  async settleReviewedTransaction(transaction: Transaction): Promise<Transaction> {
+    await this.chargeWithFailover(transaction.riskScore ?? 0, transaction);
+    transaction.updatedAt = new Date();
+    return transaction;
+  }
+
+  private async chargeWithFailover(riskScore: number, transaction: Transaction): Promise<void> {
+    const candidates = fraudRuleConfigService.getEligibleProviders(riskScore);
+    transaction.attempts = transaction.attempts || [];
+
+    for (const candidate of candidates) {
+      const providerName = candidate.name;
+      let provider: PaymentProvider | undefined;
+
+      try {
+        // A provider missing from the registry is skipped like one that is down
+        provider = providerRegistry.getProvider(providerName);
+        const charging = provider;
+        const result = await this.getProviderBreaker(providerName).execute(() =>
+          this.chargeProvider(charging, transaction)
+        );
+
+        transaction.provider = providerName;
+        transaction.status = this.mapProviderStatus(result.status);
+        if (result.status === 'approved') {
+          if (transaction.intent === 'authorize') {
+            transaction.status = TransactionStatus.AUTHORIZED;
+            transaction.authorizationExpiresAt = new Date(Date.now() + AUTHORIZATION_EXPIRY_MS);
+          } else {
+            transaction.capturedAmount = result.amount;
+          }
+        }
+        transaction.attempts.push({
+          provider: providerName,
+          outcome: result.status,
+          message: result.message,
+          attemptedAt: new Date()
+        });
+
+        if (result.status === 'declined') {
+          transaction.explanation = `${transaction.explanation}. Declined by ${providerName}: ${result.message || 'no reason given'}`;
+        }
+        return;
+      } catch (error) {
+        transaction.attempts.push({
+          provider: providerName,
+          outcome: 'error',
+          message: (error as Error).message,
+          attemptedAt: new Date()
+        });
+
+        logger.warn('Provider call failed', {
+          transactionId: transaction.id,
+          provider: providerName,
+          error: (error as Error).message
+        });
+
+        eventPublisher.publish(EVENTS.PROVIDER_FAILED, {
+          source: 'PaymentService',
+          transactionId: transaction.id,
+          provider: providerName,
+          error: (error as Error).message
+        });
+
+        if (error instanceof UnresolvedChargeError) {
+          transaction.provider = providerName;
+          transaction.status = TransactionStatus.PROCESSING;
+          transaction.explanation = `${transaction.explanation}. Charge at ${providerName} is unconfirmed: reconcile it with the provider`;
+          return;
+        }
+
+        // The provider rejected the payment itself; the next one would only be asked the same
+        if (provider && error instanceof ProviderError && !error.retryable) {
+          transaction.status = TransactionStatus.FAILED;
+          transaction.providerReference = undefined;
+          transaction.explanation = `${transaction.explanation}. Rejected by ${providerName}: ${error.message}`;
+          return;
+        }
+      }
+    }
+
+    transaction.status = TransactionStatus.FAILED;
+    transaction.providerReference = undefined;
+    transaction.explanation = `${transaction.explanation}. All eligible providers failed: ${candidates.map(c => c.name).join(', ')}`;
+  }
+
+  private async chargeProvider(provider: PaymentProvider, transaction: Transaction): Promise<ProviderResult> {
+    const providerName = provider.name;
+    const pending = provider.authorize(transaction);
+    let authorization: ProviderResult;
+    try {
+      authorization = await withTimeout(pending, this.providerTimeout, `Provider ${providerName} authorization timed out`);
+    } catch (error) {
+      if (error instanceof TimeoutError) {
+        this.voidLateAuthorization(provider, transaction, pending);
+      }
+      throw error;
+    }
+    transaction.providerReference = authorization.reference;
+
+    if (authorization.status !== 'approved' || transaction.intent === 'authorize') {
+      return authorization;
+    }
+
+    let capture: ProviderResult;
+    try {
+      capture = await withTimeout(
+        provider.capture(transaction),
+        this.providerTimeout,
+        `Provider ${providerName} capture timed out`
+      );
+    } catch (error) {
+      // Only fail over once the hold is released; a capture landing after the timeout would charge twice
+      if (!(await this.releaseHold(provider, transaction))) {
+        throw new UnresolvedChargeError(`${(error as Error).message}; its authorization could not be voided`);
+      }
+      throw error;
+    }
+
+    if (capture.status === 'declined') {
+      await this.releaseHold(provider, transaction);
+    }
+    return capture;
+  }
+
+  // Voids the authorization a failed capture left behind; false when it may still be on the card
+  private async releaseHold(provider: PaymentProvider, transaction: Transaction): Promise<boolean> {
+    let message: string | undefined;
+    try {
+      const result = await withTimeout(
+        provider.void(transaction),
+        this.providerTimeout,
+        `Provider ${provider.name} void timed out`
+      );
+      if (result.status === 'approved') {
+        return true;
+      }
+      message = result.message || 'Void declined';
+    } catch (error) {
+      message = (error as Error).message;
+    }
+
+    logger.error('Failed to void the authorization of a failed capture; reconcile it with the provider', {
+      transactionId: transaction.id,
+      provider: provider.name,
+      reference: transaction.providerReference,
+      error: message
+    });
+    return false;
+  }
+
+  // The provider may still approve after we gave up and failed over; release that hold instead of leaving it on the card
+  private voidLateAuthorization(provider: PaymentProvider, transaction: Transaction, pending: Promise<ProviderResult>): void {
+    pending.then(async late => {
+      if (late.status === 'declined') {
+        return;
+      }
+      const details = { transactionId: transaction.id, provider: provider.name, reference: late.reference };
+      try {
+        const voided = await provider.void({ ...transaction, providerReference: late.reference });
+        if (voided.status !== 'approved') {
+          throw new Error(voided.message || 'Void declined');
+        }
+        logger.warn('Voided an authorization that arrived after the provider timeout', details);
+      } catch (error) {
+        logger.error('Failed to void a late authorization; reconcile it with the provider', {
+          ...details,
+          error: (error as Error).message
+        });
+      }
+    }, () => undefined);
+  }
+
+  private getProviderBreaker(providerName: string): CircuitBreaker {
+    let breaker = this.providerBreakers.get(providerName);
+    if (!breaker) {
+      breaker = new CircuitBreaker(`Provider:${providerName}`, {
+        failureThreshold: parseInt(process.env.PROVIDER_CIRCUIT_BREAKER_FAILURE_THRESHOLD || '3'),
+        resetTimeout: parseInt(process.env.PROVIDER_CIRCUIT_BREAKER_RESET_TIMEOUT || '30000'),
+        monitoringPeriod: 60000,
+        isFailure: error => !(error instanceof ProviderError) || error.retryable
+      });
+      this.providerBreakers.set(providerName, breaker);
+    }
+    return breaker;
+  }
+
+  private mapProviderStatus(status: ProviderResultStatus): TransactionStatus {
+    switch (status) {
+      case 'approved': return TransactionStatus.SUCCESS;
+      case 'pending': return TransactionStatus.PROCESSING;
+      default: return TransactionStatus.FAILED;
+    }
+  }
+
+  private recordRuleMatches(assessment: ReturnType<typeof fraudRuleConfigService.evaluateRiskFromRules>): void {
+    for (const { factor } of assessment.factors) {
+      let action = 'flag';
+      if (assessment.blockedRules.includes(factor)) {
+        action = 'block';
+      } else if (assessment.reviewRules.includes(factor)) {
+        action = 'review';
+      }
+      metrics.increment(METRICS.FRAUD_RULE_MATCHES, { rule: factor, action, mode: 'enforce' });
+    }
+
+    for (const match of assessment.shadowRules) {
+      metrics.increment(METRICS.FRAUD_RULE_MATCHES, { rule: match.rule, action: match.action, mode: 'shadow' });
+    }
+  }
+
+  // In async mode a model that misses the budget keeps running and is picked up later
+  private async assessWithinBudget(transaction: Transaction): Promise<RiskAssessment | undefined> {
+    if (this.assessmentMode !== 'async') {
+      const deadline = this.assessmentDeadlineMs > 0 ? Deadline.after(this.assessmentDeadlineMs) : undefined;
+      return llmService.assessTransactionRisk(transaction, { deadline });
+    }
+
+    const assessment = llmService.assessTransactionRisk(transaction);
+    try {
+      return await withTimeout(assessment, this.latencyBudgetMs, 'Risk assessment exceeded the latency budget');
+    } catch (error) {
+      if (!(error instanceof TimeoutError)) {
+        throw error;
+      }
+      this.deferredAssessments.set(transaction.id, assessment);
+      logger.info('Risk assessment deferred', {
+        transactionId: transaction.id,
+        latencyBudgetMs: this.latencyBudgetMs
+      });
+      return undefined;
+    }
+  }
+
+  private interpretAssessment(transaction: Transaction, assessment: RiskAssessment): {
+    modelScore?: number;
+    explanation: string;
+    factors: RiskAssessment['factors'];
+    reviewReason?: string;
+  } {
+    // The model never answered, so its placeholder score must not move the combined score
+    if (assessment.fallback) {
+      return { explanation: 'Risk model unavailable; transaction assessed using configurable fraud rules', factors: assessment.factors };
+    }
+
+    if (!this.isLowConfidence(assessment)) {
+      return { modelScore: assessment.riskScore, explanation: assessment.explanation, factors: assessment.factors };
+    }
+
+    // An inconsistent answer isn't trusted to lower or raise the score on its own
+    logger.warn('Deferring to fraud rules after low-confidence risk assessment', {
+      transactionId: transaction.id,
+      modelScore: assessment.riskScore,
+      confidence: assessment.confidence
+    });
+
+    return {
+      explanation: `Risk model answer had low confidence (${assessment.confidence}); using fraud rules only`,
+      factors: [],
+      reviewReason: assessment.riskScore >= fraudRuleConfigService.getThresholds().high
+        ? `risk model reported score ${assessment.riskScore} with low confidence`
+        : undefined
+    };
+  }
+
+  // Assessments without a confidence (fallbacks, older cache entries) are used as before
+  private isLowConfidence(assessment: RiskAssessment): boolean {
+    return assessment.confidence !== undefined && assessment.confidence < MIN_MODEL_CONFIDENCE;
+  }
+
   private determineTransactionStatus(riskScore: number): TransactionStatus {
     const thresholds = fraudRuleConfigService.getThresholds();
     
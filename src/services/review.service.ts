@@ -0,0 +1,139 @@
+import { Transaction, TransactionStatus } from '../types';
+import { logger } from '../utils/logger';
+import { eventPublisher, EVENTS } from '../utils/events';
+import { AppError } from '../middleware/error.middleware';
+import { paymentService } from './payment.service';
+import { cacheService } from './cache.service';
+import { transactionRepository } from '../repositories';
+import { TransactionRepository, nextUpdatedAt } from '../repositories/transaction.repository';
+
+export class ReviewService {
+  constructor(private repository: TransactionRepository = transactionRepository) {}
+
+  async listPending(limit: number = 100): Promise<Transaction[]> {
+    return this.repository.findAwaitingReview(limit);
+  }
+
+  async approve(transactionId: string, reviewer: string, reason: string): Promise<Transaction> {
+    const transaction = await this.claim(transactionId, reviewer);
+    const previousStatus = transaction.review?.previousStatus;
+
+    await this.releaseOnFailure(transaction, async () => {
+      if (previousStatus) {
+        // Held after it was charged; approving just releases the hold
+        transaction.status = previousStatus;
+        transaction.updatedAt = new Date();
+      } else {
+        await paymentService.settleReviewedTransaction(transaction);
+      }
+    });
+    return this.recordDecision(transaction, 'approved', reviewer, reason);
+  }
+
+  async decline(transactionId: string, reviewer: string, reason: string): Promise<Transaction> {
+    const transaction = await this.claim(transactionId, reviewer);
+    const previousStatus = transaction.review?.previousStatus;
+
+    await this.releaseOnFailure(transaction, async () => {
+      // Money already moved for transactions held after the decision, so give it back
+      if (previousStatus === TransactionStatus.SUCCESS) {
+        transaction.status = previousStatus;
+        await paymentService.refundTransaction(transaction, undefined, reason, reviewer);
+      } else if (previousStatus === TransactionStatus.AUTHORIZED || previousStatus === TransactionStatus.PROCESSING) {
+        // Not settled yet; cancel at the provider before it can be
+        transaction.status = previousStatus;
+        await paymentService.voidTransaction(transaction);
+      } else {
+        transaction.status = TransactionStatus.FAILED;
+        transaction.updatedAt = new Date();
+      }
+    });
+    return this.recordDecision(transaction, 'declined', reviewer, reason);
+  }
+
+  /**
+   * Marks the review as in progress with a conditional save, so of two
+   * concurrent decisions only one reaches the provider.
+   */
+  private async claim(transactionId: string, reviewer: string): Promise<Transaction> {
+    const transaction = await this.getReviewable(transactionId);
+    const expectedUpdatedAt = transaction.updatedAt;
+
+    transaction.review = { ...transaction.review!, status: 'in_progress', reviewer };
+    // Always move updatedAt forward so a competing claim read before this one can't match it
+    transaction.updatedAt = nextUpdatedAt(expectedUpdatedAt);
+
+    if (!(await this.repository.saveIfUnchanged(transaction, expectedUpdatedAt))) {
+      throw new AppError('Another decision on this transaction is in progress', 409);
+    }
+    await cacheService.del(cacheService.generateKey('transaction', transaction.id));
+    return transaction;
+  }
+
+  // Puts the transaction back in the queue when the provider call fails
+  private async releaseOnFailure(transaction: Transaction, decide: () => Promise<void>): Promise<void> {
+    const { status, review } = transaction;
+
+    try {
+      await decide();
+    } catch (error) {
+      transaction.status = status;
+      transaction.review = { ...review!, status: 'pending', reviewer: undefined };
+      transaction.updatedAt = new Date();
+      await this.repository.save(transaction);
+      throw error;
+    }
+  }
+
+  private async getReviewable(transactionId: string): Promise<Transaction> {
+    const transaction = await this.repository.findById(transactionId);
+
+    if (!transaction) {
+      throw new AppError('Transaction not found', 404);
+    }
+
+    if (transaction.status !== TransactionStatus.PENDING || transaction.review?.status !== 'pending') {
+      throw new AppError('Transaction is not awaiting manual review', 409);
+    }
+
+    return transaction;
+  }
+
+  private async recordDecision(
+    transaction: Transaction,
+    decision: 'approved' | 'declined',
+    reviewer: string,
+    reason: string
+  ): Promise<Transaction> {
+    transaction.review = {
+      ...transaction.review!,
+      status: decision,
+      reviewer,
+      reason,
+      reviewedAt: new Date()
+    };
+
+    await this.repository.save(transaction);
+    await cacheService.del(cacheService.generateKey('transaction', transaction.id));
+
+    eventPublisher.publish(EVENTS.TRANSACTION_UPDATED, {
+      source: 'ReviewService',
+      transactionId: transaction.id,
+      action: `review_${decision}`,
+      status: transaction.status,
+      reviewer,
+      reason
+    });
+
+    logger.info('Manual review recorded', {
+      transactionId: transaction.id,
+      decision,
+      reviewer,
+      status: transaction.status
+    });
+
+    return transaction;
+  }
+}
+
+export const reviewService = new ReviewService();
@@ -0,0 +1,96 @@
+import * as crypto from 'crypto';
+import { RiskAssessment, Transaction } from '../types';
+import { logger } from '../utils/logger';
+import { metrics, METRICS } from '../utils/metrics';
+import { cacheService } from './cache.service';
+import { currencyService } from '../config/currencies';
+import { RiskModelProvider } from '../risk-models/risk-model-provider';
+import { promptTemplateDigest } from '../risk-models/prompt';
+import { promptTemplateService } from '../config/prompt-templates';
+import { redactor } from '../utils/redaction';
+
+const KEY_PREFIX = 'risk_assessment';
+const GENERATION_KEY = `${KEY_PREFIX}:generation`;
+
+// Upper bounds in base-currency minor units; larger amounts share the last bucket
+const parseBuckets = (value: string): number[] =>
+  value.split(',').map(bound => parseInt(bound.trim())).filter(bound => !isNaN(bound)).sort((a, b) => a - b);
+
+/**
+ * Caches risk assessments by what the model actually sees rather than by
+ * transaction ID, so similar transactions share an answer. Invalidation bumps
+ * a generation number that is part of every key; old entries simply expire.
+ */
+export class RiskCacheService {
+  constructor(
+    private ttlSeconds: number = parseInt(process.env.RISK_CACHE_TTL_SECONDS || '3600'),
+    private amountBuckets: number[] = parseBuckets(
+      process.env.RISK_CACHE_AMOUNT_BUCKETS || '1000,5000,10000,50000,100000,500000,1000000'
+    )
+  ) {}
+
+  async get(transaction: Transaction, provider: RiskModelProvider): Promise<RiskAssessment | null> {
+    if (this.ttlSeconds <= 0) {
+      return null;
+    }
+
+    const cached = await cacheService.get<RiskAssessment>(await this.keyFor(transaction, provider));
+    metrics.increment(METRICS.RISK_CACHE_LOOKUPS, { provider: provider.name, result: cached ? 'hit' : 'miss' });
+
+    // The answer was given for another transaction with the same features
+    return cached ? { ...cached, transactionId: transaction.id } : null;
+  }
+
+  async set(transaction: Transaction, provider: RiskModelProvider, assessment: RiskAssessment): Promise<void> {
+    if (this.ttlSeconds <= 0) {
+      return;
+    }
+    // Shared across customers, so nothing the model echoed back about this one may stay in it
+    await cacheService.set(await this.keyFor(transaction, provider), redactor.value(assessment), this.ttlSeconds);
+  }
+
+  /**
+   * Drops every cached assessment on all instances, e.g. after a prompt or
+   * model change. Returns the new generation.
+   */
+  async invalidate(): Promise<number | null> {
+    const generation = await cacheService.increment(GENERATION_KEY);
+    logger.info('Risk assessment cache invalidated', { generation });
+    return generation;
+  }
+
+  async keyFor(transaction: Transaction, provider: RiskModelProvider): Promise<string> {
+    const generation = (await cacheService.get<number>(GENERATION_KEY)) || 0;
+    const digest = crypto
+      .createHash('sha256')
+      .update(JSON.stringify(this.features(transaction, provider)))
+      .digest('hex');
+
+    return cacheService.generateKey(KEY_PREFIX, String(generation), digest);
+  }
+
+  // Normalized inputs that decide the model's answer; raw identifiers stay out of the key
+  features(transaction: Transaction, provider: RiskModelProvider): Record<string, string | number> {
+    const baseAmount = currencyService.toBaseAmount(transaction.amount, transaction.currency);
+    const template = promptTemplateService.select(provider.name, provider.model, transaction);
+
+    return {
+      amountBucket: baseAmount === undefined ? 'unknown' : this.amountBucket(baseAmount),
+      currency: transaction.currency.toUpperCase(),
+      emailDomain: (transaction.email.split('@')[1] || '').toLowerCase(),
+      // tok_visa_4242 -> tok_visa
+      sourcePrefix: transaction.source.split('_').slice(0, 2).join('_').toLowerCase(),
+      provider: provider.name,
+      model: provider.model || provider.name,
+      promptVersion: template.version,
+      promptDigest: promptTemplateDigest(template)
+    };
+  }
+
+  private amountBucket(baseAmount: number): number {
+    const bucket = this.amountBuckets.findIndex(bound => baseAmount <= bound);
+    return bucket === -1 ? this.amountBuckets.length : bucket;
+  }
+}
+
+export const riskCacheService = new RiskCacheService();
@@ -0,0 +1,189 @@
+import { FraudRule, FraudRuleConfig, ScoreBreakdown, ShadowRuleMatch } from '../types';
+import { AppError } from '../middleware/error.middleware';
+import { ConfigValidationError, FraudRuleConfigService, fraudRuleConfigService } from '../config/fraud-rules';
+import { transactionRepository } from '../repositories';
+import { TransactionRepository } from '../repositories/transaction.repository';
+import { combineScores } from '../utils/score-combiners';
+
+// block: a block rule matched; decline: the score reached the critical threshold
+export type SimulatedDecision = 'block' | 'decline' | 'review' | 'allow';
+
+export interface SimulatedOutcome {
+  score: number;
+  factors: Array<{ factor: string; weight: number; description: string }>;
+  blockedRules: string[];
+  reviewRules: string[];
+  shadowRules: ShadowRuleMatch[];
+  // The rule score combined with the model score recorded on the transaction, if any
+  scoreBreakdown: ScoreBreakdown;
+  provider: string;
+  decision: SimulatedDecision;
+}
+
+export interface SimulationRequest {
+  // Full replacement config, or rules merged by name into the live config
+  config?: FraudRuleConfig;
+  rules?: FraudRule[];
+  transactions?: Array<Record<string, any>>;
+  transactionIds?: string[];
+}
+
+interface OutcomeTotals {
+  decisions: Record<SimulatedDecision, number>;
+  providers: Record<string, number>;
+  averageScore: number;
+}
+
+/**
+ * Evaluates a candidate fraud configuration against sample or stored
+ * transactions next to the live configuration. Nothing is persisted and
+ * velocity counters are not recorded, so velocity fields must be supplied
+ * on the sample transactions. The risk model is not called: stored
+ * transactions reuse their recorded model score, and samples may carry a
+ * modelScore.
+ */
+export class RuleSimulationService {
+  constructor(private repository: TransactionRepository = transactionRepository) {}
+
+  async simulate(request: SimulationRequest) {
+    const candidate = this.buildCandidate(request);
+    const { transactions, notFound } = await this.loadTransactions(request);
+
+    const results = transactions.map((transaction, index) => {
+      const live = this.evaluate(fraudRuleConfigService, transaction);
+      const simulated = this.evaluate(candidate, transaction);
+
+      return {
+        index,
+        transactionId: transaction.id,
+        live,
+        candidate: simulated,
+        changed: live.decision !== simulated.decision
+          || live.provider !== simulated.provider
+          || live.scoreBreakdown.combinedScore !== simulated.scoreBreakdown.combinedScore
+      };
+    });
+
+    return {
+      results,
+      notFound,
+      summary: {
+        transactions: results.length,
+        changed: results.filter(result => result.changed).length,
+        decisionChanges: results.filter(result => result.live.decision !== result.candidate.decision).length,
+        providerChanges: results.filter(result => result.live.provider !== result.candidate.provider).length,
+        live: this.totals(results.map(result => result.live)),
+        candidate: this.totals(results.map(result => result.candidate)),
+        ruleMatches: this.ruleMatches(results)
+      }
+    };
+  }
+
+  private buildCandidate(request: SimulationRequest): FraudRuleConfigService {
+    let candidate: FraudRuleConfig;
+
+    if (request.config) {
+      candidate = request.config;
+    } else {
+      candidate = fraudRuleConfigService.getConfig();
+      for (const rule of request.rules || []) {
+        const index = candidate.rules.findIndex(existing => existing.name === rule.name);
+        if (index === -1) {
+          candidate.rules.push(rule);
+        } else {
+          candidate.rules[index] = rule;
+        }
+      }
+    }
+
+    try {
+      return FraudRuleConfigService.fromConfig(candidate);
+    } catch (error) {
+      if (error instanceof ConfigValidationError) {
+        throw new AppError(error.message, 422);
+      }
+      throw error;
+    }
+  }
+
+  private async loadTransactions(request: SimulationRequest): Promise<{
+    transactions: Array<Record<string, any>>;
+    notFound: string[];
+  }> {
+    const transactions = [...(request.transactions || [])];
+    const notFound: string[] = [];
+
+    for (const id of request.transactionIds || []) {
+      const stored = await this.repository.findById(id);
+      if (stored) {
+        transactions.push(stored);
+      } else {
+        notFound.push(id);
+      }
+    }
+
+    return { transactions, notFound };
+  }
+
+  // Decides like PaymentService.processTransaction: block rules, then review rules, then the thresholds
+  private evaluate(service: FraudRuleConfigService, transaction: Record<string, any>): SimulatedOutcome {
+    const assessment = service.evaluateRiskFromRules(transaction);
+    const modelScore = transaction.modelScore ?? transaction.scoreBreakdown?.modelScore;
+    const scoreBreakdown = combineScores(service.getScoring(), assessment.score, modelScore);
+    const riskLevel = service.riskLevelForScore(scoreBreakdown.combinedScore);
+
+    let decision: SimulatedDecision = 'allow';
+    if (assessment.blockedRules.length > 0) {
+      decision = 'block';
+    } else if (assessment.reviewRules.length > 0) {
+      decision = 'review';
+    } else if (riskLevel === 'CRITICAL') {
+      decision = 'decline';
+    } else if (riskLevel === 'HIGH') {
+      decision = 'review';
+    }
+
+    return {
+      ...assessment,
+      scoreBreakdown,
+      provider: service.selectProvider(scoreBreakdown.combinedScore),
+      decision
+    };
+  }
+
+  private totals(outcomes: SimulatedOutcome[]): OutcomeTotals {
+    const decisions: Record<SimulatedDecision, number> = { block: 0, decline: 0, review: 0, allow: 0 };
+    const providers: Record<string, number> = {};
+    let scoreSum = 0;
+
+    for (const outcome of outcomes) {
+      decisions[outcome.decision]++;
+      providers[outcome.provider] = (providers[outcome.provider] || 0) + 1;
+      scoreSum += outcome.scoreBreakdown.combinedScore;
+    }
+
+    return {
+      decisions,
+      providers,
+      averageScore: outcomes.length > 0 ? scoreSum / outcomes.length : 0
+    };
+  }
+
+  private ruleMatches(results: Array<{ live: SimulatedOutcome; candidate: SimulatedOutcome }>) {
+    const matches: Record<string, { live: number; candidate: number }> = {};
+    const count = (outcome: SimulatedOutcome, side: 'live' | 'candidate') => {
+      for (const { factor } of outcome.factors) {
+        matches[factor] = matches[factor] || { live: 0, candidate: 0 };
+        matches[factor][side]++;
+      }
+    };
+
+    for (const result of results) {
+      count(result.live, 'live');
+      count(result.candidate, 'candidate');
+    }
+    return matches;
+  }
+}
+
+export const ruleSimulationService = new RuleSimulationService();
@@ -0,0 +1,115 @@
+import { createHash } from 'crypto';
+import { RedisClientType } from 'redis';
+import { Transaction } from '../types';
+import { redisClient } from '../config/redis';
+import { logger } from '../utils/logger';
+import { withTimeout } from '../utils/timeout';
+
+export interface VelocityWindow {
+  label: string;
+  ms: number;
+}
+
+export type VelocityFeatures = Record<string, number>;
+
+interface VelocityDimension {
+  name: string;
+  value: (transaction: Transaction) => string | undefined;
+}
+
+const DIMENSIONS: VelocityDimension[] = [
+  { name: 'email', value: transaction => transaction.email?.toLowerCase() },
+  { name: 'source', value: transaction => transaction.source },
+  { name: 'client', value: transaction => transaction.clientId }
+];
+
+const UNIT_MS: Record<string, number> = {
+  s: 1000,
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000
+};
+
+export const parseWindows = (spec: string): VelocityWindow[] => {
+  return spec.split(',')
+    .map(label => label.trim())
+    .filter(label => label.length > 0)
+    .map(label => {
+      const match = /^(\d+)([smhd])$/.exec(label);
+      if (!match) {
+        throw new Error(`Invalid velocity window: ${label}`);
+      }
+      return { label, ms: parseInt(match[1]) * UNIT_MS[match[2]] };
+    });
+};
+
+/**
+ * Sliding-window transaction counters kept in Redis sorted sets. Each counter
+ * is exposed to the rule engine as a derived field named
+ * `<dimension>_count_<window>`, e.g. `email_count_1h`.
+ */
+export class VelocityService {
+  private windows: VelocityWindow[];
+  private timeout = parseInt(process.env.VELOCITY_TIMEOUT_MS || '200');
+
+  constructor(
+    private redis: RedisClientType = redisClient.getClient(),
+    windows: string = process.env.VELOCITY_WINDOWS || '1h,24h'
+  ) {
+    this.windows = parseWindows(windows);
+  }
+
+  async recordAndCount(transaction: Transaction): Promise<VelocityFeatures> {
+    try {
+      return await withTimeout(
+        this.count(transaction),
+        this.timeout,
+        'Velocity lookup timed out'
+      );
+    } catch (error) {
+      // Missing counters leave velocity rules unmatched rather than blocking payments
+      logger.warn('Velocity features unavailable', {
+        transactionId: transaction.id,
+        error: (error as Error).message
+      });
+      return {};
+    }
+  }
+
+  private async count(transaction: Transaction): Promise<VelocityFeatures> {
+    const now = new Date(transaction.createdAt).getTime();
+    const maxWindow = Math.max(...this.windows.map(window => window.ms));
+    const features: VelocityFeatures = {};
+
+    for (const dimension of DIMENSIONS) {
+      const value = dimension.value(transaction);
+      if (!value) {
+        continue;
+      }
+
+      const key = `velocity:${dimension.name}:${createHash('sha256').update(value).digest('hex')}`;
+      const multi = this.redis.multi()
+        .zAdd(key, { score: now, value: transaction.id })
+        .zRemRangeByScore(key, 0, now - maxWindow);
+
+      for (const window of this.windows) {
+        multi.zCount(key, now - window.ms, now);
+      }
+      multi.pExpire(key, maxWindow);
+
+      const replies = await multi.exec();
+      this.windows.forEach((window, index) => {
+        features[`${dimension.name}_count_${window.label}`] = Number(replies[index + 2]);
+      });
+    }
+
+    // Legacy field name used by rapid_succession_rule
+    if (features.email_count_1h !== undefined) {
+      features.email_frequency = features.email_count_1h;
+    }
+
+    return features;
+  }
+}
+
+export const velocityService = new VelocityService();
@@ -0,0 +1,66 @@
+import axios from 'axios';
+import * as crypto from 'crypto';
+import { logger } from '../utils/logger';
+import { eventPublisher, EventData, EVENTS } from '../utils/events';
+import { retryService } from '../utils/retry';
+
+export interface WebhookSettings {
+  url?: string;
+  secret?: string;
+  events: string[];
+  timeoutMs: number;
+}
+
+const readWebhookSettings = (): WebhookSettings => ({
+  url: process.env.WEBHOOK_URL || undefined,
+  secret: process.env.WEBHOOK_SECRET || undefined,
+  events: (process.env.WEBHOOK_EVENTS || EVENTS.RISK_ASSESSED)
+    .split(',')
+    .map(event => event.trim())
+    .filter(Boolean),
+  timeoutMs: parseInt(process.env.WEBHOOK_TIMEOUT_MS || '5000')
+});
+
+/**
+ * Forwards selected internal events to an HTTP endpoint. Bodies are signed
+ * with HMAC-SHA256 when WEBHOOK_SECRET is set so receivers can verify them.
+ */
+export class WebhookService {
+  private started = false;
+
+  constructor(private settings: WebhookSettings = readWebhookSettings()) {}
+
+  start(): void {
+    if (this.started || !this.settings.url) {
+      return;
+    }
+
+    for (const event of this.settings.events) {
+      eventPublisher.subscribe(event, data => {
+        this.deliver(event, data).catch((error) => {
+          logger.error('Webhook delivery failed', { event, error: (error as Error).message });
+        });
+      });
+    }
+    this.started = true;
+    logger.info('Forwarding events to webhook', { events: this.settings.events });
+  }
+
+  async deliver(event: string, data: EventData): Promise<void> {
+    const body = JSON.stringify({ event, data });
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+      'X-Webhook-Event': event
+    };
+    if (this.settings.secret) {
+      headers['X-Webhook-Signature'] = `sha256=${crypto.createHmac('sha256', this.settings.secret).update(body).digest('hex')}`;
+    }
+
+    await retryService.execute(
+      () => axios.post(this.settings.url as string, body, { headers, timeout: this.settings.timeoutMs }),
+      { maxAttempts: 3, baseDelay: 1000 }
+    );
+  }
+}
+
+export const webhookService = new WebhookService();
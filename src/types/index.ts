@@ -1,8 +1,12 @@
+export type PaymentIntent = 'authorize' | 'sale';
+
 export interface PaymentRequest {
   amount: number;
   currency: string;
   source: string;
   email: string;
+  intent?: PaymentIntent;
+  timezone?: string;
 }
 
 export interface PaymentResponse {
@@ -19,19 +23,69 @@ export interface Transaction {
   currency: string;
   source: string;
   email: string;
+  clientId?: string;
+  intent?: PaymentIntent;
+  timezone?: string;
   provider?: string;
+  providerReference?: string;
   status: TransactionStatus;
   riskScore?: number;
   explanation?: string;
+  riskFactors?: RiskFactor[];
+  shadowRules?: ShadowRuleMatch[];
+  scoreBreakdown?: ScoreBreakdown;
+  // deferred: decided on rules while the risk model assessment runs in the background
+  assessmentStatus?: 'deferred' | 'completed';
+  review?: ManualReview;
+  attempts?: ProviderAttempt[];
+  capturedAmount?: number;
+  authorizationExpiresAt?: Date;
+  refunds?: Refund[];
   createdAt: Date;
   updatedAt: Date;
 }
 
+export interface ManualReview {
+  // in_progress: claimed by a reviewer whose decision is being carried out at the provider
+  status: 'pending' | 'in_progress' | 'approved' | 'declined';
+  queuedAt: Date;
+  triggeredBy?: string[];
+  // Set when a transaction was held after it had already been charged or authorized
+  previousStatus?: TransactionStatus;
+  reviewer?: string;
+  reason?: string;
+  reviewedAt?: Date;
+}
+
+export interface ProviderAttempt {
+  provider: string;
+  outcome: 'approved' | 'declined' | 'pending' | 'error';
+  message?: string;
+  attemptedAt: Date;
+}
+
 export enum TransactionStatus {
   SUCCESS = 'success',
   FAILED = 'failed',
   PENDING = 'pending',
-  PROCESSING = 'processing'
+  PROCESSING = 'processing',
+  REFUNDED = 'refunded',
+  PARTIALLY_REFUNDED = 'partially_refunded',
+  AUTHORIZED = 'authorized',
+  VOIDED = 'voided',
+  EXPIRED = 'expired'
+}
+
+export interface Refund {
+  id: string;
+  amount: number;
+  // pending: reserved while the provider is called; older refunds without a status are completed
+  status?: 'pending' | 'completed';
+  reason?: string;
+  // Set once the provider accepted the refund
+  providerReference?: string;
+  requestedBy?: string;
+  createdAt: Date;
 }
 
 export interface RiskAssessment {
@@ -41,6 +95,14 @@ export interface RiskAssessment {
   explanation: string;
   factors: RiskFactor[];
   recommendations: string[];
+  // 0-1; lowered when the model's level disagrees with its own score
+  confidence?: number;
+  // The level the model reported, kept when it was reconciled to the score
+  reportedRiskLevel?: string;
+  // Prompt template that produced the answer; absent for assessments made without a prompt
+  promptVersion?: string;
+  // Placeholder returned when no model could be reached; its score is not a model opinion
+  fallback?: boolean;
   assessedAt: Date;
 }
 
@@ -61,21 +123,54 @@ export interface FraudRule {
   name: string;
   enabled: boolean;
   weight: number;
-  conditions: FraudCondition[];
+  conditions: FraudConditionNode[];
   action: 'flag' | 'block' | 'review';
+  // Shadow rules are evaluated and recorded but never affect the outcome
+  mode?: 'enforce' | 'shadow';
+}
+
+export interface ShadowRuleMatch {
+  rule: string;
+  action: 'flag' | 'block' | 'review';
+  weight: number;
 }
 
+export type FraudOperator =
+  | 'gt' | 'lt' | 'gte' | 'lte' | 'eq' | 'between'
+  | 'in' | 'not_in'
+  | 'contains' | 'starts_with' | 'ends_with' | 'regex'
+  | 'exists';
+
 export interface FraudCondition {
   field: string;
-  operator: 'gt' | 'lt' | 'eq' | 'contains' | 'regex';
-  value: any;
+  operator: FraudOperator;
+  value?: any;
   description: string;
 }
 
+// Exactly one of all/any/not is set on a group
+export interface FraudConditionGroup {
+  all?: FraudConditionNode[];
+  any?: FraudConditionNode[];
+  not?: FraudConditionNode;
+  description?: string;
+}
+
+export type FraudConditionNode = FraudCondition | FraudConditionGroup;
+
 export interface FraudRuleConfig {
   rules: FraudRule[];
   providers: ProviderConfig[];
   thresholds: RiskThresholds;
+  scoring?: ScoringConfig;
+  settings?: FraudRuleSettings;
+}
+
+export interface FraudRuleSettings {
+  // IANA zone used for time-derived rule fields unless the transaction has its own
+  timezone?: string;
+  holidays?: string[];
+  [key: string]: any;
 }
 
 export interface ProviderConfig {
@@ -83,6 +178,7 @@ export interface ProviderConfig {
   priority: number;
   riskTolerance: 'low' | 'medium' | 'high';
   enabled: boolean;
+  adapter?: string;
 }
 
 export interface RiskThresholds {
@@ -91,3 +187,71 @@ export interface RiskThresholds {
   high: number;
   critical: number;
 }
+
+export type ScoreCombinationStrategy = 'max' | 'weighted' | 'rules_only' | 'model_only' | 'raise_only';
+
+export interface ScoringConfig {
+  strategy: ScoreCombinationStrategy;
+  // Relative weights for the weighted strategy; normalized by their sum
+  weights?: {
+    rules: number;
+    model: number;
+  };
+}
+
+export interface ScoreBreakdown {
+  strategy: ScoreCombinationStrategy;
+  ruleScore: number;
+  // Absent when the model wasn't consulted, failed or wasn't trusted
+  modelScore?: number;
+  combinedScore: number;
+  // Prompt template behind the model's answer
+  promptVersion?: string;
+}
+
+export interface FraudConfigChange {
+  action: 'create' | 'update' | 'enable' | 'disable' | 'delete';
+  target: 'rule' | 'provider' | 'thresholds' | 'scoring';
+  name?: string;
+  before?: any;
+  after?: any;
+}
+
+export interface FraudConfigVersion {
+  version: number;
+  config: FraudRuleConfig;
+  changedBy: string;
+  change: FraudConfigChange;
+  createdAt: Date;
+}
+
+export interface CurrencyDefinition {
+  // Digits after the decimal point, e.g. 2 for USD, 0 for JPY, 3 for KWD
+  exponent: number;
+  // Value of one major unit in the base currency
+  rate: number;
+}
+
+export interface CurrencyTable {
+  base: string;
+  updated_at?: string;
+  currencies: Record<string, CurrencyDefinition>;
+}
+
+export interface PromptTemplate {
+  version: string;
+  description?: string;
+  system: string;
+  // May reference {{variables}} filled in from the transaction
+  user: string;
+}
+
+// A version, or versions with relative weights to split traffic between them
+export type PromptTemplateSelection = string | Record<string, number>;
+
+export interface PromptTemplateConfig {
+  default: PromptTemplateSelection;
+  // Keyed by provider name or provider/model; the most specific match wins
+  select?: Record<string, PromptTemplateSelection>;
+  templates: Record<string, Omit<PromptTemplate, 'version'>>;
+}
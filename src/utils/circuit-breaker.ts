@@ -1,4 +1,5 @@
 import { logger } from './logger';
+import { Deadline, DeadlineExceededError } from './timeout';
 
 export enum CircuitBreakerState {
   CLOSED = 'CLOSED',
@@ -11,6 +12,8 @@ export interface CircuitBreakerOptions {
   resetTimeout: number;
   monitoringPeriod: number;
   fallbackFunction?: () => any;
+  // Errors caused by the request rather than the service, e.g. a rejected card, return false
+  isFailure?: (error: Error) => boolean;
 }
 
 export class CircuitBreaker {
@@ -25,7 +28,11 @@ export class CircuitBreaker {
     private options: CircuitBreakerOptions
   ) {}
 
-  async execute<T>(operation: () => Promise<T>): Promise<T> {
+  async execute<T>(operation: () => Promise<T>, deadline?: Deadline): Promise<T> {
+    if (deadline?.expired()) {
+      throw new DeadlineExceededError(`Request deadline exceeded before calling ${this.name}`);
+    }
+
     if (this.state === CircuitBreakerState.OPEN) {
       if (this.shouldAttemptReset()) {
         this.state = CircuitBreakerState.HALF_OPEN;
@@ -40,7 +47,10 @@ export class CircuitBreaker {
       this.onSuccess();
       return result;
     } catch (error) {
-      this.onFailure();
+      // Running out of the caller's budget says nothing about the service's health
+      if (!(error instanceof DeadlineExceededError) && (this.options.isFailure?.(error as Error) ?? true)) {
+        this.onFailure();
+      }
       throw error;
     }
   }
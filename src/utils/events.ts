@@ -51,11 +51,14 @@ export class EventPublisher {
 export const EVENTS = {
   TRANSACTION_CREATED: 'transaction.created',
   TRANSACTION_UPDATED: 'transaction.updated',
+  TRANSACTION_REFUNDED: 'transaction.refunded',
   DECISION_BLOCKED: 'decision.blocked',
   PAYMENT_PROCESSED: 'payment.processed',
   RISK_ASSESSED: 'risk.assessed',
   LLM_CALL_FAILED: 'llm.call.failed',
-  CIRCUIT_BREAKER_OPENED: 'circuit.breaker.opened'
+  CIRCUIT_BREAKER_OPENED: 'circuit.breaker.opened',
+  PROVIDER_FAILED: 'provider.failed',
+  FRAUD_CONFIG_UPDATED: 'fraud.config.updated'
 };
 
 export const eventPublisher = EventPublisher.getInstance();
@@ -0,0 +1,54 @@
+import { logger } from './logger';
+
+/**
+ * In-process FIFO queue that runs jobs in the background with bounded
+ * concurrency. Jobs live in memory only; a failed job is logged and dropped,
+ * so handlers should do their own retrying.
+ */
+export class JobQueue<T> {
+  private pending: T[] = [];
+  private active = 0;
+  private idleWaiters: Array<() => void> = [];
+
+  constructor(
+    private name: string,
+    private handler: (job: T) => Promise<void>,
+    private concurrency: number = 1
+  ) {}
+
+  enqueue(job: T): void {
+    this.pending.push(job);
+    this.next();
+  }
+
+  get size(): number {
+    return this.pending.length + this.active;
+  }
+
+  // Resolves once every queued and running job has finished
+  drain(): Promise<void> {
+    if (this.size === 0) {
+      return Promise.resolve();
+    }
+    return new Promise(resolve => this.idleWaiters.push(resolve));
+  }
+
+  private next(): void {
+    while (this.active < this.concurrency && this.pending.length > 0) {
+      const job = this.pending.shift() as T;
+      this.active++;
+
+      this.handler(job)
+        .catch((error) => {
+          logger.error(`Job in queue ${this.name} failed`, { error: (error as Error).message });
+        })
+        .finally(() => {
+          this.active--;
+          this.next();
+          if (this.size === 0) {
+            this.idleWaiters.splice(0).forEach(resolve => resolve());
+          }
+        });
+    }
+  }
+}
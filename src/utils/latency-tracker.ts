@@ -0,0 +1,27 @@
+/**
+ * Keeps the most recent call durations to answer percentile queries, e.g.
+ * "how long do 95% of calls take".
+ */
+export class LatencyTracker {
+  private samples: number[] = [];
+
+  constructor(private windowSize: number = 100, private minSamples: number = 10) {}
+
+  record(durationMs: number): void {
+    this.samples.push(durationMs);
+    if (this.samples.length > this.windowSize) {
+      this.samples.shift();
+    }
+  }
+
+  // Undefined until enough samples were recorded to be meaningful
+  percentile(p: number): number | undefined {
+    if (this.samples.length < this.minSamples) {
+      return undefined;
+    }
+
+    const sorted = [...this.samples].sort((a, b) => a - b);
+    const index = Math.min(sorted.length - 1, Math.ceil((p / 100) * sorted.length) - 1);
+    return sorted[Math.max(0, index)];
+  }
+}
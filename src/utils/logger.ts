@@ -1,8 +1,23 @@
 import winston from 'winston';
+import { redactor } from './redaction';
+
+// Scrubs customer emails and payment tokens from the message and metadata
+const redactPii = winston.format(info => {
+  if (!redactor.logsEnabled) {
+    return info;
+  }
+  for (const key of Object.keys(info)) {
+    if (key !== 'level') {
+      info[key] = redactor.value(info[key], key);
+    }
+  }
+  return info;
+});
 
 const logFormat = winston.format.combine(
   winston.format.timestamp(),
   winston.format.errors({ stack: true }),
+  redactPii(),
   winston.format.json()
 );
 
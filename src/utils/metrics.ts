@@ -0,0 +1,41 @@
+type Labels = Record<string, string>;
+
+/**
+ * In-process counters, keyed Prometheus style: name{label="value"}.
+ * Counts are per instance and reset on restart.
+ */
+export class MetricsRegistry {
+  private counters: Map<string, number> = new Map();
+
+  increment(name: string, labels: Labels = {}, by: number = 1): void {
+    const key = this.key(name, labels);
+    this.counters.set(key, (this.counters.get(key) || 0) + by);
+  }
+
+  get(name: string, labels: Labels = {}): number {
+    return this.counters.get(this.key(name, labels)) || 0;
+  }
+
+  snapshot(): Record<string, number> {
+    return Object.fromEntries(Array.from(this.counters.entries()).sort(([a], [b]) => a.localeCompare(b)));
+  }
+
+  reset(): void {
+    this.counters.clear();
+  }
+
+  private key(name: string, labels: Labels): string {
+    const pairs = Object.keys(labels).sort().map(label => `${label}="${labels[label]}"`);
+    return pairs.length > 0 ? `${name}{${pairs.join(',')}}` : name;
+  }
+}
+
+export const metrics = new MetricsRegistry();
+
+export const METRICS = {
+  FRAUD_RULE_MATCHES: 'fraud_rule_matches_total',
+  RISK_MODEL_RESPONSES: 'risk_model_responses_total',
+  DEFERRED_RISK_ASSESSMENTS: 'deferred_risk_assessments_total',
+  RISK_MODEL_HEDGES: 'risk_model_hedged_requests_total',
+  RISK_CACHE_LOOKUPS: 'risk_assessment_cache_lookups_total'
+};
@@ -0,0 +1,115 @@
+import * as crypto from 'crypto';
+
+export type EmailRedaction = 'hash' | 'domain' | 'none';
+export type TokenRedaction = 'mask' | 'none';
+
+export interface RedactionPolicy {
+  emails: EmailRedaction;
+  tokens: TokenRedaction;
+  // Scrub emails and tokens from log messages and metadata
+  logs: boolean;
+  // Keeps hashed local parts from being reversed with a dictionary of known addresses
+  hashSalt: string;
+}
+
+const EMAIL_PATTERN = /([A-Za-z0-9._%+-]+)@([A-Za-z0-9-]+(?:\.[A-Za-z0-9-]+)+)/g;
+// Payment source tokens, e.g. tok_visa_4242424242424242 or pm_1Nq8Xk2eZvKYlo2C
+const TOKEN_PATTERN = /\b(?:tok|src|pm|card)_[A-Za-z0-9_]+/g;
+const EMAIL_KEYS = ['email'];
+const MAX_DEPTH = 10;
+
+export const loadRedactionPolicy = (): RedactionPolicy => ({
+  emails: (process.env.PII_REDACT_EMAILS as EmailRedaction) || 'hash',
+  tokens: (process.env.PII_REDACT_TOKENS as TokenRedaction) || 'mask',
+  logs: process.env.PII_REDACT_LOGS !== 'false',
+  hashSalt: process.env.PII_HASH_SALT || ''
+});
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null &&
+  [Object.prototype, null].includes(Object.getPrototypeOf(value));
+
+/**
+ * Strips customer identifiers from anything that leaves the payment record:
+ * risk model prompts, log lines and cached assessments. Emails keep their
+ * domain (a useful risk signal) and tokens keep their type prefix and last 4.
+ */
+export class Redactor {
+  constructor(private policy: RedactionPolicy = loadRedactionPolicy()) {}
+
+  get logsEnabled(): boolean {
+    return this.policy.logs;
+  }
+
+  // jane.doe@example.com -> 5f1c0e8a@example.com (hash) or redacted@example.com (domain)
+  email(email: string): string {
+    if (this.policy.emails === 'none') {
+      return email;
+    }
+
+    const at = email.lastIndexOf('@');
+    if (at === -1) {
+      return 'redacted';
+    }
+
+    const domain = email.slice(at + 1).toLowerCase();
+    if (this.policy.emails === 'domain') {
+      return `redacted@${domain}`;
+    }
+
+    const local = email.slice(0, at).toLowerCase();
+    const digest = crypto.createHmac('sha256', this.policy.hashSalt).update(local).digest('hex');
+    return `${digest.slice(0, 8)}@${domain}`;
+  }
+
+  // tok_visa_4242424242424242 -> tok_visa_****4242
+  token(token: string): string {
+    if (this.policy.tokens === 'none') {
+      return token;
+    }
+
+    const parts = token.split('_');
+    if (parts.length < 3) {
+      return `****${token.slice(-4)}`;
+    }
+
+    const secret = parts.slice(2).join('_');
+    return secret ? `${parts.slice(0, 2).join('_')}_****${secret.slice(-4)}` : token;
+  }
+
+  // Free text such as model output or error messages
+  text(text: string): string {
+    let result = text;
+    if (this.policy.emails !== 'none') {
+      result = result.replace(EMAIL_PATTERN, match => this.email(match));
+    }
+    if (this.policy.tokens !== 'none') {
+      result = result.replace(TOKEN_PATTERN, match => this.token(match));
+    }
+    return result;
+  }
+
+  // Copies plain objects and arrays with every string scrubbed; other values are returned as is
+  value<T>(value: T, key?: string, depth: number = 0): T {
+    if (typeof value === 'string') {
+      const redacted = key && EMAIL_KEYS.includes(key) && this.policy.emails !== 'none'
+        ? this.email(value)
+        : this.text(value);
+      return redacted as unknown as T;
+    }
+    if (depth >= MAX_DEPTH) {
+      return value;
+    }
+    if (Array.isArray(value)) {
+      return value.map(item => this.value(item, undefined, depth + 1)) as unknown as T;
+    }
+    if (isPlainObject(value)) {
+      return Object.fromEntries(
+        Object.entries(value).map(([field, item]) => [field, this.value(item, field, depth + 1)])
+      ) as T;
+    }
+    return value;
+  }
+}
+
+export const redactor = new Redactor();
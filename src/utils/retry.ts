@@ -1,4 +1,5 @@
 import { logger } from './logger';
+import { Deadline, DeadlineExceededError } from './timeout';
 
 export interface RetryOptions {
   maxAttempts: number;
@@ -6,6 +7,10 @@ export interface RetryOptions {
   maxDelay: number;
   backoffFactor: number;
   jitter: boolean;
+  // Return false to give up immediately on errors that won't succeed on retry
+  shouldRetry?: (error: Error) => boolean;
+  // No attempt starts, and no backoff sleeps, past this point
+  deadline?: Deadline;
 }
 
 export class RetryService {
@@ -23,8 +28,10 @@ export class RetryService {
   ): Promise<T> {
     const opts = { ...this.defaultOptions, ...options };
     let lastError: Error | undefined;
+    let attempts = 0;
     
     for (let attempt = 1; attempt <= opts.maxAttempts; attempt++) {
+      attempts = attempt;
       try {
         const result = await operation();
         
@@ -41,16 +48,22 @@ export class RetryService {
           attempt
         });
         
-        if (attempt === opts.maxAttempts) {
+        if (attempt === opts.maxAttempts || (opts.shouldRetry && !opts.shouldRetry(lastError))) {
           break;
         }
         
         const delay = this.calculateDelay(attempt, opts);
+        if (opts.deadline && (lastError instanceof DeadlineExceededError || delay >= opts.deadline.remaining())) {
+          logger.warn('Not retrying; the request deadline would be exceeded', {
+            remainingMs: opts.deadline.remaining()
+          });
+          break;
+        }
         await this.delay(delay);
       }
     }
     
-    logger.error(`Operation failed after ${opts.maxAttempts} attempts`, {
+    logger.error(`Operation failed after ${attempts} attempts`, {
       error: lastError?.message || 'Unknown error'
     });
     
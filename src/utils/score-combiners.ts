@@ -0,0 +1,35 @@
+import { ScoreBreakdown, ScoreCombinationStrategy, ScoringConfig } from '../types';
+
+export type ScoreCombiner = (ruleScore: number, modelScore: number, config: ScoringConfig) => number;
+
+export const SCORE_COMBINERS: Record<ScoreCombinationStrategy, ScoreCombiner> = {
+  max: (ruleScore, modelScore) => Math.max(ruleScore, modelScore),
+  weighted: (ruleScore, modelScore, config) => weightedAverage(ruleScore, modelScore, config.weights || { rules: 1, model: 1 }),
+  rules_only: ruleScore => ruleScore,
+  model_only: (ruleScore, modelScore) => modelScore,
+  // The model may escalate by its weighted share but never lowers the rule score;
+  // without weights that is the same as max
+  raise_only: (ruleScore, modelScore, config) =>
+    Math.max(ruleScore, weightedAverage(ruleScore, modelScore, config.weights || { rules: 0, model: 1 }))
+};
+
+function weightedAverage(ruleScore: number, modelScore: number, weights: { rules: number; model: number }): number {
+  return (ruleScore * weights.rules + modelScore * weights.model) / (weights.rules + weights.model);
+}
+
+/**
+ * Combines the fraud rule score with the risk model score using the configured
+ * strategy. Without a model score the rule score stands whatever the strategy.
+ */
+export function combineScores(config: ScoringConfig, ruleScore: number, modelScore?: number): ScoreBreakdown {
+  const combined = modelScore === undefined
+    ? ruleScore
+    : SCORE_COMBINERS[config.strategy](ruleScore, modelScore, config);
+
+  return {
+    strategy: config.strategy,
+    ruleScore,
+    modelScore,
+    combinedScore: Math.round(Math.min(1, Math.max(0, combined)) * 1000) / 1000
+  };
+}
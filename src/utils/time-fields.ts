@@ -0,0 +1,52 @@
+export interface TimeFields {
+  hour_of_day: number;
+  // 0 = Sunday ... 6 = Saturday, matching Date#getDay
+  day_of_week: number;
+  is_weekend: boolean;
+  is_holiday: boolean;
+  local_date: string;
+}
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+export const isValidTimeZone = (timeZone: unknown): timeZone is string => {
+  if (typeof timeZone !== 'string' || timeZone.length === 0) {
+    return false;
+  }
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Derives calendar fields for a moment as seen in the given IANA time zone.
+ * Holidays are either full dates (2026-11-26) or recurring month-days (12-25).
+ */
+export const deriveTimeFields = (at: Date, timeZone: string, holidays: string[] = []): TimeFields => {
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      hourCycle: 'h23',
+      weekday: 'short'
+    }).formatToParts(at).map(part => [part.type, part.value])
+  );
+
+  const dayOfWeek = WEEKDAYS.indexOf(parts.weekday);
+  const monthDay = `${parts.month}-${parts.day}`;
+  const localDate = `${parts.year}-${monthDay}`;
+
+  return {
+    hour_of_day: parseInt(parts.hour),
+    day_of_week: dayOfWeek,
+    is_weekend: dayOfWeek === 0 || dayOfWeek === 6,
+    is_holiday: holidays.includes(localDate) || holidays.includes(monthDay),
+    local_date: localDate
+  };
+};
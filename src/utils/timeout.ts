@@ -0,0 +1,58 @@
+export class TimeoutError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TimeoutError';
+  }
+}
+
+// The caller's overall budget ran out, as opposed to a single call timing out
+export class DeadlineExceededError extends TimeoutError {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DeadlineExceededError';
+  }
+}
+
+export const withTimeout = <T>(
+  operation: Promise<T>,
+  ms: number,
+  message: string,
+  createError: (message: string) => Error = text => new TimeoutError(text)
+): Promise<T> => {
+  let timer: NodeJS.Timeout | undefined;
+
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(createError(message)), ms);
+  });
+
+  return Promise.race([operation, timeout]).finally(() => clearTimeout(timer));
+};
+
+/**
+ * A point in time by which a request must finish, passed down the call chain
+ * so nested timeouts and retries never outlast the caller.
+ */
+export class Deadline {
+  private constructor(readonly expiresAt: number) {}
+
+  static after(ms: number): Deadline {
+    return new Deadline(Date.now() + ms);
+  }
+
+  remaining(): number {
+    return Math.max(0, this.expiresAt - Date.now());
+  }
+
+  expired(): boolean {
+    return this.remaining() === 0;
+  }
+
+  // Caps a call's own timeout at what is left of the deadline; message is for the call's own timeout
+  bound<T>(operation: Promise<T>, timeoutMs: number, message: string): Promise<T> {
+    const remaining = this.remaining();
+    if (remaining >= timeoutMs) {
+      return withTimeout(operation, timeoutMs, message);
+    }
+    return withTimeout(operation, remaining, 'Request deadline exceeded', text => new DeadlineExceededError(text));
+  }
+}
@@ -8,7 +8,11 @@ export const generateAssessmentId = (): string => {
   return `risk_${uuidv4()}`;
 };
 
+export const generateRefundId = (): string => {
+  return `rfd_${uuidv4()}`;
+};
+
 export const isValidUUID = (id: string): boolean => {
   const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
-  return uuidRegex.test(id.replace(/^(txn_|risk_)/, ''));
+  return uuidRegex.test(id.replace(/^(txn_|risk_|rfd_)/, ''));
 };
@@ -1,5 +1,6 @@
 import { Request, Response } from 'express';
 import { AuthController } from '../../src/controllers/auth.controller';
+import { AuthenticatedRequest, requireAdmin } from '../../src/middleware/auth.middleware';
 import { generateToken, verifyToken } from '../../src/utils/jwt';
 import { createValidAuthRequest, expectValidErrorResponse } from '../utils/test-helpers';
 
@@ -97,6 +98,56 @@ describe('AuthController', () => {
       });
     });
 
+    describe('Admin Clients', () => {
+      beforeEach(() => {
+        process.env.ADMIN_CLIENT_CREDENTIALS = 'ops-client:ops-secret';
+      });
+
+      afterEach(() => {
+        delete process.env.ADMIN_CLIENT_CREDENTIALS;
+        delete process.env.ADMIN_CLIENT_IDS;
+      });
+
+      it('should issue tokens to operator clients with their own secret', async () => {
+        mockRequest.body = { clientId: 'ops-client', clientSecret: 'ops-secret' };
+        mockGenerateToken.mockReturnValue('ops-token');
+
+        await authController.createToken(mockRequest as Request, mockResponse as Response);
+
+        expect(mockGenerateToken).toHaveBeenCalledWith('ops-client');
+        expect(mockStatus).toHaveBeenCalledWith(200);
+      });
+
+      it('should reject operator clients with the payment client secret', async () => {
+        mockRequest.body = { clientId: 'ops-client', clientSecret: 'test-secret-key' };
+
+        await authController.createToken(mockRequest as Request, mockResponse as Response);
+
+        expect(mockStatus).toHaveBeenCalledWith(401);
+        expect(mockGenerateToken).not.toHaveBeenCalled();
+      });
+
+      it('should grant admin access to operator clients but not to the payment client', () => {
+        const next = jest.fn();
+        const res = { status: jest.fn().mockReturnValue({ json: jest.fn() }) } as unknown as Response;
+
+        requireAdmin({ clientId: 'ops-client' } as AuthenticatedRequest, res, next);
+        requireAdmin({ clientId: 'test-client' } as AuthenticatedRequest, res, next);
+
+        expect(next).toHaveBeenCalledTimes(1);
+        expect(res.status).toHaveBeenCalledWith(403);
+      });
+
+      it('should still grant admin access to clients listed in ADMIN_CLIENT_IDS', () => {
+        process.env.ADMIN_CLIENT_IDS = 'test-client';
+        const next = jest.fn();
+
+        requireAdmin({ clientId: 'test-client' } as AuthenticatedRequest, {} as Response, next);
+
+        expect(next).toHaveBeenCalled();
+      });
+    });
+
     describe('Validation Failures', () => {
       it('should return 401 for invalid client ID', async () => {
         mockRequest.body = createValidAuthRequest({ clientId: 'invalid-client' });
@@ -0,0 +1,105 @@
+import { AuthorizationExpiryService } from '../../src/services/authorization-expiry.service';
+import { InMemoryTransactionRepository } from '../../src/repositories/in-memory-transaction.repository';
+import { providerRegistry } from '../../src/providers/provider.registry';
+import { TransactionStatus } from '../../src/types';
+import { createMockTransaction } from '../utils/test-helpers';
+import { MockCacheService } from '../utils/mock-services';
+
+jest.mock('../../src/services/llm.service', () => ({
+  llmService: {
+    assessTransactionRisk: jest.fn()
+  }
+}));
+
+jest.mock('../../src/services/velocity.service', () => ({
+  velocityService: {
+    recordAndCount: jest.fn().mockResolvedValue({})
+  }
+}));
+
+// Mock the logger
+jest.mock('../../src/utils/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn()
+  }
+}));
+
+import { paymentService } from '../../src/services/payment.service';
+import { cacheService } from '../../src/services/cache.service';
+
+describe('AuthorizationExpiryService', () => {
+  let repository: InMemoryTransactionRepository;
+  let service: AuthorizationExpiryService;
+
+  const later = () => new Date(Date.now() + 8 * 24 * 60 * 60 * 1000);
+
+  // Authorized at the sandbox provider and stored
+  const createAuthorization = async () => {
+    const transaction = createMockTransaction({ intent: 'authorize', status: TransactionStatus.AUTHORIZED, provider: 'paypal' });
+    const authorization = await providerRegistry.getProvider('paypal').authorize(transaction);
+    transaction.providerReference = authorization.reference;
+    transaction.authorizationExpiresAt = new Date(Date.now() + 1000);
+    await repository.save(transaction);
+    return transaction;
+  };
+
+  beforeEach(() => {
+    (cacheService as any) = new MockCacheService();
+    providerRegistry.reset();
+    repository = new InMemoryTransactionRepository();
+    service = new AuthorizationExpiryService(repository);
+  });
+
+  it('should void and expire authorizations past their window', async () => {
+    const transaction = await createAuthorization();
+
+    await expect(service.sweep(later())).resolves.toBe(1);
+
+    expect((await repository.findById(transaction.id))?.status).toBe(TransactionStatus.EXPIRED);
+  });
+
+  it('should skip authorizations captured since they were listed', async () => {
+    const transaction = await createAuthorization();
+    jest.spyOn(repository, 'findByStatus').mockResolvedValueOnce([{ ...transaction }]);
+    await paymentService.captureTransaction(transaction);
+    await repository.save(transaction);
+    const voidSpy = jest.spyOn(providerRegistry.getProvider('paypal'), 'void');
+
+    await expect(service.sweep(later())).resolves.toBe(0);
+
+    expect(voidSpy).not.toHaveBeenCalled();
+    expect((await repository.findById(transaction.id))?.status).toBe(TransactionStatus.SUCCESS);
+  });
+
+  it('should leave an authorization the provider will not void for reconciliation', async () => {
+    const transaction = await createAuthorization();
+    // Captured at the provider without this service knowing
+    await providerRegistry.getProvider('paypal').capture(transaction);
+
+    await expect(service.sweep(later())).resolves.toBe(0);
+
+    expect((await repository.findById(transaction.id))?.status).toBe(TransactionStatus.AUTHORIZED);
+  });
+
+  it('should record the expiry on a copy held for review while the hold was released', async () => {
+    const transaction = await createAuthorization();
+    const expire = paymentService.expireAuthorization.bind(paymentService);
+    jest.spyOn(paymentService, 'expireAuthorization').mockImplementationOnce(async (current) => {
+      const held = (await repository.findById(transaction.id))!;
+      held.review = { status: 'pending', queuedAt: new Date(), previousStatus: held.status };
+      held.status = TransactionStatus.PENDING;
+      held.updatedAt = new Date(held.updatedAt.getTime() + 1);
+      await repository.save(held);
+      return expire(current);
+    });
+
+    await expect(service.sweep(later())).resolves.toBe(1);
+
+    const stored = await repository.findById(transaction.id);
+    expect(stored?.status).toBe(TransactionStatus.PENDING);
+    expect(stored?.review?.previousStatus).toBe(TransactionStatus.EXPIRED);
+  });
+});
@@ -0,0 +1,126 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { currencyService } from '../../src/config/currencies';
+import { fraudRuleConfigService } from '../../src/config/fraud-rules';
+import { processPaymentSchema } from '../../src/schemas/payment.schemas';
+import { createMockTransaction, createValidPaymentRequest } from '../utils/test-helpers';
+
+// Mock the logger
+jest.mock('../../src/utils/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn()
+  }
+}));
+
+describe('CurrencyService', () => {
+  describe('Conversion', () => {
+    it('should respect minor-unit exponents when converting to the base currency', () => {
+      expect(currencyService.toBaseAmount(10000, 'USD')).toBe(10000);
+      // 150000 JPY has no minor units: 150000 * 0.0067 = 1005.00 USD
+      expect(currencyService.toBaseAmount(150000, 'JPY')).toBe(100500);
+      // 1.000 KWD = 3.25 USD
+      expect(currencyService.toBaseAmount(1000, 'KWD')).toBe(325);
+    });
+
+    it('should not convert unknown currencies', () => {
+      expect(currencyService.toBaseAmount(10000, 'XYZ')).toBeUndefined();
+    });
+
+    it('should format amounts in major units', () => {
+      expect(currencyService.formatAmount(10050, 'USD')).toBe('100.50 USD');
+      expect(currencyService.formatAmount(123456, 'JPY')).toBe('123456 JPY');
+      expect(currencyService.formatAmount(1500, 'KWD')).toBe('1.500 KWD');
+    });
+  });
+
+  describe('Rules', () => {
+    const ruleMatches = (rule: string, amount: number, currency: string): boolean =>
+      fraudRuleConfigService.evaluateRiskFromRules(createMockTransaction({ amount, currency }))
+        .factors.some(factor => factor.factor === rule);
+    const highAmountMatches = (amount: number, currency: string): boolean => ruleMatches('high_amount_rule', amount, currency);
+
+    it('should compare high_amount_rule against the normalized amount', () => {
+      // Same raw amount, very different values
+      expect(highAmountMatches(150000, 'GBP')).toBe(true);
+      expect(highAmountMatches(150000, 'JPY')).toBe(true);
+      expect(highAmountMatches(140000, 'JPY')).toBe(false);
+    });
+
+    it('should look for round amounts in the payment currency', () => {
+      expect(ruleMatches('large_round_amount', 200000, 'USD')).toBe(true);
+      expect(ruleMatches('large_round_amount', 200000, 'JPY')).toBe(true);
+      // 200.000 KWD and 2000.50 USD are not round thousands
+      expect(ruleMatches('large_round_amount', 200000, 'KWD')).toBe(false);
+      expect(ruleMatches('large_round_amount', 200050, 'USD')).toBe(false);
+      // Round in yen but worth under 500.00 USD
+      expect(ruleMatches('large_round_amount', 20000, 'JPY')).toBe(false);
+    });
+  });
+
+  describe('Payment Validation', () => {
+    it('should accept any currency in the rate table', () => {
+      const { error, value } = processPaymentSchema.validate(createValidPaymentRequest({ currency: 'jpy' }));
+
+      expect(error).toBeUndefined();
+      expect(value.currency).toBe('JPY');
+    });
+
+    it('should reject currencies missing from the rate table', () => {
+      const { error } = processPaymentSchema.validate(createValidPaymentRequest({ currency: 'XYZ' }));
+
+      expect(error?.message).toBe('Currency XYZ is not supported');
+    });
+
+    it('should limit amounts by their value in the base currency', () => {
+      // 1490000 JPY = 9983.00 USD, 1500000 JPY = 10050.00 USD
+      expect(processPaymentSchema.validate(createValidPaymentRequest({ amount: 1490000, currency: 'JPY' })).error).toBeUndefined();
+      expect(processPaymentSchema.validate(createValidPaymentRequest({ amount: 1500000, currency: 'JPY' })).error?.message)
+        .toBe('Amount cannot exceed 10000.00 USD');
+      expect(processPaymentSchema.validate(createValidPaymentRequest({ amount: 1000001, currency: 'USD' })).error?.message)
+        .toBe('Amount cannot exceed 10000.00 USD');
+      // 1000.000 KWD = 3250.00 USD
+      expect(processPaymentSchema.validate(createValidPaymentRequest({ amount: 1000000, currency: 'KWD' })).error).toBeUndefined();
+    });
+  });
+
+  describe('Reloading', () => {
+    let tempDir: string;
+    let ratesPath: string;
+    let originalPath: string;
+
+    const writeRates = (content: string) => fs.writeFileSync(ratesPath, content);
+
+    beforeEach(() => {
+      tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'currencies-'));
+      ratesPath = path.join(tempDir, 'currencies.yml');
+      originalPath = (currencyService as any).ratesPath;
+      (currencyService as any).ratesPath = ratesPath;
+    });
+
+    afterEach(() => {
+      (currencyService as any).ratesPath = originalPath;
+      currencyService.reloadRates();
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    });
+
+    it('should pick up new rates and currencies', () => {
+      writeRates('base: "USD"\ncurrencies:\n  USD: { exponent: 2, rate: 1 }\n  PLN: { exponent: 2, rate: 0.25 }\n');
+
+      expect(currencyService.reloadRates()).toBe(true);
+      expect(currencyService.getSupportedCurrencies()).toEqual(['PLN', 'USD']);
+      expect(currencyService.toBaseAmount(10000, 'PLN')).toBe(2500);
+    });
+
+    it('should keep the last good rates when the file is invalid', () => {
+      writeRates('base: "EUR"\ncurrencies:\n  USD: { exponent: 2, rate: -1 }\n');
+
+      expect(currencyService.reloadRates()).toBe(false);
+      expect(currencyService.getBaseCurrency()).toBe('USD');
+      expect(currencyService.isSupported('JPY')).toBe(true);
+    });
+  });
+});
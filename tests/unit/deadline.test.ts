@@ -0,0 +1,102 @@
+import { CircuitBreaker, CircuitBreakerState } from '../../src/utils/circuit-breaker';
+import { RetryService } from '../../src/utils/retry';
+import { Deadline, DeadlineExceededError, TimeoutError } from '../../src/utils/timeout';
+import { LLMService } from '../../src/services/llm.service';
+import { RiskModelProvider } from '../../src/risk-models/risk-model-provider';
+import { MockCacheService } from '../utils/mock-services';
+import { createMockTransaction, createMockRiskAssessment } from '../utils/test-helpers';
+
+jest.mock('../../src/services/cache.service');
+jest.mock('../../src/utils/events');
+
+// Mock the logger
+jest.mock('../../src/utils/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn()
+  }
+}));
+
+import { cacheService } from '../../src/services/cache.service';
+
+describe('Request Deadlines', () => {
+  const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+  describe('Deadline', () => {
+    it('should cap a call timeout at the time left', async () => {
+      const deadline = Deadline.after(20);
+
+      await expect(deadline.bound(sleep(200), 1000, 'own timeout')).rejects.toBeInstanceOf(DeadlineExceededError);
+    });
+
+    it("should keep the call's own timeout when it is the shorter one", async () => {
+      const deadline = Deadline.after(1000);
+
+      const error = await deadline.bound(sleep(200), 20, 'own timeout').catch(e => e);
+      expect(error).toBeInstanceOf(TimeoutError);
+      expect(error).not.toBeInstanceOf(DeadlineExceededError);
+    });
+  });
+
+  describe('RetryService', () => {
+    it('should stop retrying when the next backoff would pass the deadline', async () => {
+      const operation = jest.fn().mockRejectedValue(new Error('unavailable'));
+
+      await expect(new RetryService().execute(operation, {
+        maxAttempts: 5,
+        baseDelay: 100,
+        jitter: false,
+        deadline: Deadline.after(150)
+      })).rejects.toThrow('unavailable');
+
+      expect(operation).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('CircuitBreaker', () => {
+    const breaker = () => new CircuitBreaker('test', { failureThreshold: 1, resetTimeout: 30000, monitoringPeriod: 60000 });
+
+    it('should not count a spent deadline as a service failure', async () => {
+      const circuitBreaker = breaker();
+
+      await expect(circuitBreaker.execute(() => Promise.reject(new DeadlineExceededError('late')))).rejects.toThrow('late');
+
+      expect(circuitBreaker.getState()).toBe(CircuitBreakerState.CLOSED);
+    });
+
+    it('should refuse to start a call after the deadline', async () => {
+      const operation = jest.fn();
+
+      await expect(breaker().execute(operation, Deadline.after(0))).rejects.toBeInstanceOf(DeadlineExceededError);
+      expect(operation).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('LLMService', () => {
+    beforeEach(() => {
+      (cacheService as any) = new MockCacheService();
+    });
+
+    it('should give up within the deadline instead of stacking model timeouts', async () => {
+      const slowModel: RiskModelProvider = {
+        name: 'slow',
+        settings: { timeoutMs: 1000, failureThreshold: 5, resetTimeout: 30000 },
+        assess: jest.fn(async (transaction) => {
+          await sleep(300);
+          return createMockRiskAssessment(transaction.id);
+        })
+      };
+      const startedAt = Date.now();
+
+      const result = await new LLMService(slowModel).assessTransactionRisk(createMockTransaction(), {
+        deadline: Deadline.after(100)
+      });
+
+      expect(Date.now() - startedAt).toBeLessThan(500);
+      expect(slowModel.assess).toHaveBeenCalledTimes(1);
+      expect(result.explanation).toContain('Risk assessment service temporarily unavailable');
+    });
+  });
+});
@@ -0,0 +1,135 @@
+import { DeferredRiskService } from '../../src/services/deferred-risk.service';
+import { paymentService } from '../../src/services/payment.service';
+import { Transaction, TransactionStatus } from '../../src/types';
+import { InMemoryTransactionRepository } from '../../src/repositories/in-memory-transaction.repository';
+import { metrics, METRICS } from '../../src/utils/metrics';
+import { createMockTransaction, createMockRiskAssessment } from '../utils/test-helpers';
+import { MockCacheService, MockEventPublisher } from '../utils/mock-services';
+
+jest.mock('../../src/services/cache.service');
+jest.mock('../../src/utils/events');
+jest.mock('../../src/services/llm.service', () => ({
+  llmService: {
+    assessTransactionRisk: jest.fn()
+  }
+}));
+jest.mock('../../src/services/velocity.service', () => ({
+  velocityService: {
+    recordAndCount: jest.fn().mockResolvedValue({})
+  }
+}));
+
+// Mock the logger
+jest.mock('../../src/utils/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn()
+  }
+}));
+
+import { cacheService } from '../../src/services/cache.service';
+import { eventPublisher } from '../../src/utils/events';
+import { llmService } from '../../src/services/llm.service';
+
+describe('DeferredRiskService', () => {
+  let repository: InMemoryTransactionRepository;
+  let service: DeferredRiskService;
+  let mockEventPublisher: MockEventPublisher;
+
+  // Decides a transaction on rules and stores it, as the payment controller does
+  const processLate = async (riskScore: number, overrides: Partial<Transaction> = {}) => {
+    (llmService.assessTransactionRisk as jest.Mock).mockImplementationOnce(async (transaction) => {
+      await new Promise(resolve => setTimeout(resolve, 50));
+      return createMockRiskAssessment(transaction.id, { riskScore, riskLevel: 'HIGH' });
+    });
+    const transaction = await paymentService.processTransaction(createMockTransaction(overrides));
+    await repository.save(transaction);
+    return transaction;
+  };
+
+  beforeEach(() => {
+    repository = new InMemoryTransactionRepository();
+    service = new DeferredRiskService(repository);
+    mockEventPublisher = new MockEventPublisher();
+    (cacheService as any) = new MockCacheService();
+    (eventPublisher as any) = mockEventPublisher;
+    (paymentService as any).assessmentMode = 'async';
+    (paymentService as any).latencyBudgetMs = 10;
+    metrics.reset();
+  });
+
+  it('should move a stored transaction to review and publish risk.assessed when the late score is high', async () => {
+    const transaction = await processLate(0.85);
+    expect(transaction.status).toBe(TransactionStatus.SUCCESS);
+
+    service.enqueue(transaction);
+    await service.drain();
+
+    const stored = await repository.findById(transaction.id);
+    expect(stored?.status).toBe(TransactionStatus.PENDING);
+    expect(stored?.assessmentStatus).toBe('completed');
+    expect(stored?.review?.previousStatus).toBe(TransactionStatus.SUCCESS);
+
+    const events = mockEventPublisher.getEventsByType('risk.assessed');
+    expect(events).toHaveLength(1);
+    expect(events[0].data).toMatchObject({ transactionId: transaction.id, deferred: true, movedToReview: true, riskScore: 0.85 });
+    expect(metrics.get(METRICS.DEFERRED_RISK_ASSESSMENTS, { outcome: 'review' })).toBe(1);
+  });
+
+  it('should re-assess when the original model call is no longer in flight', async () => {
+    const transaction = await processLate(0.1);
+    paymentService.takeDeferredAssessment(transaction.id);
+    (llmService.assessTransactionRisk as jest.Mock).mockResolvedValueOnce(
+      createMockRiskAssessment(transaction.id, { riskScore: 0.2 })
+    );
+
+    service.enqueue(transaction);
+    await service.drain();
+
+    const stored = await repository.findById(transaction.id);
+    expect(stored?.status).toBe(TransactionStatus.SUCCESS);
+    expect(stored?.scoreBreakdown?.modelScore).toBe(0.2);
+    expect(metrics.get(METRICS.DEFERRED_RISK_ASSESSMENTS, { outcome: 'unchanged' })).toBe(1);
+  });
+
+  it('should keep changes made while the assessment was running', async () => {
+    const transaction = await processLate(0.1, { intent: 'authorize' });
+    expect(transaction.status).toBe(TransactionStatus.AUTHORIZED);
+
+    service.enqueue(transaction);
+    const captured = await paymentService.captureTransaction((await repository.findById(transaction.id))!);
+    await repository.save(captured);
+    await service.drain();
+
+    const stored = await repository.findById(transaction.id);
+    expect(stored?.status).toBe(TransactionStatus.SUCCESS);
+    expect(stored?.capturedAmount).toBe(transaction.amount);
+    expect(stored?.authorizationExpiresAt).toBeUndefined();
+    expect(stored?.assessmentStatus).toBe('completed');
+    expect(stored?.scoreBreakdown?.modelScore).toBe(0.1);
+  });
+
+  it('should not overwrite a transaction that changes while the result is saved', async () => {
+    const transaction = await processLate(0.1);
+    jest.spyOn(repository, 'saveIfUnchanged').mockResolvedValue(false);
+
+    service.enqueue(transaction);
+    await service.drain();
+
+    expect((await repository.findById(transaction.id))?.assessmentStatus).toBe('deferred');
+    expect(repository.saveIfUnchanged).toHaveBeenCalledTimes(3);
+    expect(mockEventPublisher.getEventsByType('risk.assessed')).toHaveLength(0);
+  });
+
+  it('should ignore transactions that were assessed in time', async () => {
+    const transaction = createMockTransaction();
+    await repository.save(transaction);
+
+    service.enqueue(transaction);
+    await service.drain();
+
+    expect(mockEventPublisher.getEventsByType('risk.assessed')).toHaveLength(0);
+  });
+});
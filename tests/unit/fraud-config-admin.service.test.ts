@@ -0,0 +1,108 @@
+import { FraudConfigAdminService } from '../../src/services/fraud-config-admin.service';
+import { InMemoryFraudConfigRepository } from '../../src/repositories/in-memory-fraud-config.repository';
+import { fraudRuleConfigService } from '../../src/config/fraud-rules';
+import { AppError } from '../../src/middleware/error.middleware';
+import { FraudRule, FraudRuleConfig } from '../../src/types';
+import { MockEventPublisher } from '../utils/mock-services';
+import { createMockTransaction } from '../utils/test-helpers';
+
+// Mock the logger
+jest.mock('../../src/utils/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn()
+  }
+}));
+
+import { eventPublisher } from '../../src/utils/events';
+
+describe('FraudConfigAdminService', () => {
+  let repository: InMemoryFraudConfigRepository;
+  let service: FraudConfigAdminService;
+  let mockEventPublisher: MockEventPublisher;
+  let originalConfig: FraudRuleConfig;
+
+  const crossBorderRule: FraudRule = {
+    name: 'cross_border_test',
+    enabled: true,
+    weight: 0.4,
+    action: 'flag',
+    conditions: [{ field: 'currency', operator: 'eq', value: 'JPY', description: 'Paid in yen' }]
+  };
+
+  beforeAll(() => {
+    originalConfig = fraudRuleConfigService.getConfig();
+  });
+
+  beforeEach(() => {
+    (fraudRuleConfigService as any).config = JSON.parse(JSON.stringify(originalConfig));
+    (fraudRuleConfigService as any).source = 'file';
+    repository = new InMemoryFraudConfigRepository();
+    service = new FraudConfigAdminService(repository);
+    mockEventPublisher = new MockEventPublisher();
+    (eventPublisher as any) = mockEventPublisher;
+  });
+
+  it('should store a new version with an audit entry and apply it immediately', async () => {
+    const version = await service.createRule(crossBorderRule, 'admin-client');
+
+    expect(version.version).toBe(1);
+    expect(version.changedBy).toBe('admin-client');
+    expect(version.change).toMatchObject({ action: 'create', target: 'rule', name: 'cross_border_test' });
+
+    const assessment = fraudRuleConfigService.evaluateRiskFromRules(createMockTransaction({ currency: 'JPY' }));
+    expect(assessment.factors.map(factor => factor.factor)).toContain('cross_border_test');
+    expect(mockEventPublisher.getEventsByType('fraud.config.updated')).toHaveLength(1);
+  });
+
+  it('should record before and after values when toggling a rule', async () => {
+    await service.createRule(crossBorderRule, 'admin-client');
+    await service.setRuleEnabled('cross_border_test', false, 'other-admin');
+
+    const [latest, first] = await service.listVersions();
+    expect(latest.change).toMatchObject({ action: 'disable', before: true, after: false });
+    expect(latest.changedBy).toBe('other-admin');
+    expect(first.version).toBe(1);
+    expect(fraudRuleConfigService.getRules().map(rule => rule.name)).not.toContain('cross_border_test');
+  });
+
+  it('should reject changes that leave the configuration invalid', async () => {
+    const thresholds = { low: 0.5, medium: 0.4, high: 0.8, critical: 0.9 };
+
+    await expect(service.updateThresholds(thresholds, 'admin-client'))
+      .rejects.toMatchObject({ statusCode: 422 });
+    expect(await repository.getLatest()).toBeNull();
+    expect(fraudRuleConfigService.getThresholds()).toEqual(originalConfig.thresholds);
+  });
+
+  it('should return 404 for unknown rules and 409 for duplicate names', async () => {
+    await expect(service.deleteRule('missing_rule', 'admin-client')).rejects.toMatchObject({ statusCode: 404 });
+
+    await service.createRule(crossBorderRule, 'admin-client');
+    await expect(service.createRule(crossBorderRule, 'admin-client')).rejects.toBeInstanceOf(AppError);
+  });
+
+  it('should pick up versions stored by another instance before changing', async () => {
+    const otherInstance = new FraudConfigAdminService(repository);
+    await otherInstance.createRule(crossBorderRule, 'admin-client');
+
+    const version = await service.updateProvider('stripe', {
+      priority: 2,
+      riskTolerance: 'medium',
+      enabled: true,
+      adapter: 'sandbox'
+    }, 'admin-client');
+
+    expect(version.version).toBe(2);
+    expect(version.config.rules.map(rule => rule.name)).toContain('cross_border_test');
+  });
+
+  it('should stop following the YAML file once the store is in charge', async () => {
+    await service.deleteProvider('square', 'admin-client');
+
+    expect(fraudRuleConfigService.reloadConfig()).toBe(false);
+    expect(fraudRuleConfigService.getProviders().map(provider => provider.name)).not.toContain('square');
+  });
+});
@@ -0,0 +1,263 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as yaml from 'js-yaml';
+import { fraudRuleConfigService } from '../../src/config/fraud-rules';
+import { FraudConditionNode, FraudRuleConfig } from '../../src/types';
+import { fraudRuleConfigSchema, scoringConfigSchema } from '../../src/schemas/fraud-rules.schemas';
+import { createMockTransaction, delay } from '../utils/test-helpers';
+
+// Mock the logger
+jest.mock('../../src/utils/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn()
+  }
+}));
+
+describe('FraudRuleConfigService', () => {
+  let originalConfig: FraudRuleConfig;
+
+  const useRule = (conditions: FraudConditionNode[]) => {
+    (fraudRuleConfigService as any).config = {
+      ...originalConfig,
+      rules: [{ name: 'test_rule', enabled: true, weight: 0.5, action: 'flag', conditions }]
+    };
+  };
+
+  const matches = (transaction: any): boolean =>
+    fraudRuleConfigService.evaluateRiskFromRules(transaction).factors.length > 0;
+
+  beforeAll(() => {
+    originalConfig = (fraudRuleConfigService as any).config;
+  });
+
+  afterEach(() => {
+    (fraudRuleConfigService as any).config = originalConfig;
+  });
+
+  describe('Shipped Configuration', () => {
+    it('should block a single temporary mail address', () => {
+      const result = fraudRuleConfigService.evaluateRiskFromRules(
+        createMockTransaction({ email: 'someone@tempmail.com' })
+      );
+
+      expect(result.blockedRules).toContain('suspicious_email_domain');
+    });
+  });
+
+  describe('Time Fields', () => {
+    // Friday 23:30 in UTC, already Saturday morning in Tokyo
+    const fridayNightUtc = new Date('2026-10-16T23:30:00Z');
+
+    it('should derive weekend from createdAt rather than the server clock', () => {
+      useRule([{ field: 'is_weekend', operator: 'eq', value: true, description: 'Weekend' }]);
+
+      expect(matches(createMockTransaction({ createdAt: fridayNightUtc }))).toBe(false);
+      expect(matches(createMockTransaction({ createdAt: new Date('2026-10-17T12:00:00Z') }))).toBe(true);
+    });
+
+    it('should use the customer timezone when provided', () => {
+      useRule([{ field: 'day_of_week', operator: 'eq', value: 6, description: 'Saturday' }]);
+
+      expect(matches(createMockTransaction({ createdAt: fridayNightUtc }))).toBe(false);
+      expect(matches(createMockTransaction({ createdAt: fridayNightUtc, timezone: 'Asia/Tokyo' }))).toBe(true);
+    });
+
+    it('should fall back to the configured timezone', () => {
+      useRule([{ field: 'hour_of_day', operator: 'between', value: [8, 9], description: 'Morning' }]);
+      (fraudRuleConfigService as any).config.settings = { timezone: 'Asia/Tokyo' };
+
+      expect(matches(createMockTransaction({ createdAt: fridayNightUtc }))).toBe(true);
+      expect(matches(createMockTransaction({ createdAt: fridayNightUtc, timezone: 'America/New_York' }))).toBe(false);
+    });
+
+    it('should match one-off and recurring holidays from the calendar', () => {
+      useRule([{ field: 'is_holiday', operator: 'eq', value: true, description: 'Holiday' }]);
+      (fraudRuleConfigService as any).config.settings = { holidays: ['12-25', '2026-11-26'] };
+
+      expect(matches(createMockTransaction({ createdAt: new Date('2030-12-25T10:00:00Z') }))).toBe(true);
+      expect(matches(createMockTransaction({ createdAt: new Date('2026-11-26T10:00:00Z') }))).toBe(true);
+      expect(matches(createMockTransaction({ createdAt: new Date('2027-11-26T10:00:00Z') }))).toBe(false);
+    });
+
+    it('should reject an unknown timezone in the configuration', () => {
+      const { error } = fraudRuleConfigSchema.validate({ ...originalConfig, settings: { timezone: 'Mars/Olympus' } });
+
+      expect(error?.message).toContain('IANA time zone');
+    });
+  });
+
+  describe('Shadow Mode', () => {
+    it('should report shadow matches without scoring or enforcing them', () => {
+      (fraudRuleConfigService as any).config = {
+        ...originalConfig,
+        rules: [{
+          name: 'shadow_block',
+          enabled: true,
+          weight: 0.9,
+          action: 'block',
+          mode: 'shadow',
+          conditions: [{ field: 'currency', operator: 'eq', value: 'JPY', description: 'Paid in yen' }]
+        }]
+      };
+
+      const result = fraudRuleConfigService.evaluateRiskFromRules(createMockTransaction({ currency: 'JPY' }));
+
+      expect(result.score).toBe(0);
+      expect(result.factors).toEqual([]);
+      expect(result.blockedRules).toEqual([]);
+      expect(result.shadowRules).toEqual([{ rule: 'shadow_block', action: 'block', weight: 0.9 }]);
+    });
+  });
+
+  describe('Condition Groups', () => {
+    it('should match any/all/not groups', () => {
+      useRule([{
+        all: [
+          { any: [
+            { field: 'currency', operator: 'eq', value: 'EUR', description: 'Euro' },
+            { field: 'currency', operator: 'eq', value: 'GBP', description: 'Pound' }
+          ] },
+          { not: { field: 'email', operator: 'ends_with', value: '@trusted.com', description: 'Trusted domain' } }
+        ]
+      }]);
+
+      expect(matches({ currency: 'GBP', email: 'a@example.com' })).toBe(true);
+      expect(matches({ currency: 'USD', email: 'a@example.com' })).toBe(false);
+      expect(matches({ currency: 'EUR', email: 'a@trusted.com' })).toBe(false);
+    });
+
+    it('should describe matched groups without duplicate descriptions', () => {
+      useRule([{ any: [
+        { field: 'email', operator: 'contains', value: '@a.', description: 'Disposable email' },
+        { field: 'email', operator: 'contains', value: '@b.', description: 'Disposable email' }
+      ] }]);
+
+      const result = fraudRuleConfigService.evaluateRiskFromRules({ email: 'x@b.io' });
+
+      expect(result.factors[0].description).toBe('Disposable email');
+    });
+  });
+
+  describe('Operators', () => {
+    it.each([
+      [{ field: 'amount', operator: 'gte', value: 100, description: '' }, { amount: 100 }, true],
+      [{ field: 'amount', operator: 'lte', value: 100, description: '' }, { amount: 101 }, false],
+      [{ field: 'amount', operator: 'between', value: [10, 20], description: '' }, { amount: 20 }, true],
+      [{ field: 'currency', operator: 'in', value: ['EUR', 'GBP'], description: '' }, { currency: 'GBP' }, true],
+      [{ field: 'currency', operator: 'not_in', value: ['EUR', 'GBP'], description: '' }, { currency: 'GBP' }, false],
+      [{ field: 'source', operator: 'starts_with', value: 'tok_', description: '' }, { source: 'tok_visa' }, true],
+      [{ field: 'email', operator: 'ends_with', value: '.ru', description: '' }, { email: 'a@b.com' }, false],
+      [{ field: 'clientId', operator: 'exists', value: true, description: '' }, { clientId: 'c1' }, true],
+      [{ field: 'clientId', operator: 'exists', value: false, description: '' }, {}, true]
+    ])('should evaluate %o against %o', (condition, transaction, expected) => {
+      useRule([condition as FraudConditionNode]);
+
+      expect(matches(transaction)).toBe(expected);
+    });
+  });
+
+  describe('Schema Validation', () => {
+    const validate = (conditions: any[]) => fraudRuleConfigSchema.validate({
+      rules: [{ name: 'r', enabled: true, weight: 0.1, action: 'flag', conditions }],
+      providers: [],
+      thresholds: {}
+    });
+
+    it('should reject unknown operators in nested groups', () => {
+      const { error } = validate([{ any: [{ field: 'a', operator: 'near', value: 1, description: 'd' }] }]);
+
+      expect(error?.message).toContain('"rules[0].conditions[0].any[0].operator" must be one of');
+    });
+
+    it('should reject groups that mix all and any', () => {
+      const { error } = validate([{ all: [{ field: 'a', operator: 'exists', description: 'd' }], any: [] }]);
+
+      expect(error).toBeDefined();
+    });
+
+    it('should reject between without a two-number range', () => {
+      const { error } = validate([{ field: 'amount', operator: 'between', value: [1], description: 'd' }]);
+
+      expect(error?.message).toContain('must contain 2 items');
+    });
+
+    it('should require weights for the weighted scoring strategy', () => {
+      expect(scoringConfigSchema.validate({ strategy: 'weighted' }).error?.message).toContain('"weights" is required');
+      expect(scoringConfigSchema.validate({ strategy: 'weighted', weights: { rules: 0, model: 0 } }).error).toBeDefined();
+      expect(scoringConfigSchema.validate({ strategy: 'raise_only' }).error).toBeUndefined();
+    });
+  });
+
+  describe('Reloading', () => {
+    let tempDir: string;
+    let configPath: string;
+    let originalPath: string;
+
+    const writeConfig = (mutate: (config: any) => void) => {
+      const config = JSON.parse(JSON.stringify(originalConfig));
+      mutate(config);
+      fs.writeFileSync(configPath, yaml.dump(config));
+    };
+
+    beforeEach(() => {
+      tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'fraud-rules-'));
+      configPath = path.join(tempDir, 'fraud-rules.yml');
+      originalPath = (fraudRuleConfigService as any).configPath;
+      (fraudRuleConfigService as any).configPath = configPath;
+    });
+
+    afterEach(() => {
+      fraudRuleConfigService.unwatchConfig();
+      (fraudRuleConfigService as any).configPath = originalPath;
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    });
+
+    it('should apply a valid configuration change', () => {
+      writeConfig(config => { config.thresholds.critical = 0.95; });
+
+      expect(fraudRuleConfigService.reloadConfig()).toBe(true);
+      expect(fraudRuleConfigService.getThresholds().critical).toBe(0.95);
+    });
+
+    it('should keep the last good configuration when an edit is invalid', () => {
+      writeConfig(config => { config.thresholds.high = 0.5; });
+
+      expect(fraudRuleConfigService.reloadConfig()).toBe(false);
+      expect(fraudRuleConfigService.getThresholds()).toEqual(originalConfig.thresholds);
+    });
+
+    it('should report every validation problem', () => {
+      const config = JSON.parse(JSON.stringify(originalConfig));
+      config.rules[0].weight = 1.5;
+      config.rules.find((rule: any) => rule.name === 'known_fraud_source').conditions[0].value = '([';
+
+      expect(() => fraudRuleConfigService.validateConfig(config)).toThrow(
+        expect.objectContaining({
+          errors: [
+            '"rules[0].weight" must be less than or equal to 1',
+            expect.stringContaining('is not a valid regular expression')
+          ]
+        })
+      );
+    });
+
+    it('should hot reload when the watched file changes', async () => {
+      process.env.FRAUD_RULES_WATCH_INTERVAL_MS = '50';
+      writeConfig(() => undefined);
+      fraudRuleConfigService.watchConfig();
+
+      await delay(100);
+      writeConfig(config => { config.thresholds.low = 0.25; });
+
+      for (let i = 0; i < 40 && fraudRuleConfigService.getThresholds().low !== 0.25; i++) {
+        await delay(50);
+      }
+      expect(fraudRuleConfigService.getThresholds().low).toBe(0.25);
+      delete process.env.FRAUD_RULES_WATCH_INTERVAL_MS;
+    });
+  });
+});
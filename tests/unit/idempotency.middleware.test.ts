@@ -0,0 +1,138 @@
+import { Response } from 'express';
+import { idempotency } from '../../src/middleware/idempotency.middleware';
+import { AuthenticatedRequest } from '../../src/middleware/auth.middleware';
+import { createValidPaymentRequest } from '../utils/test-helpers';
+import { MockCacheService } from '../utils/mock-services';
+
+jest.mock('../../src/services/cache.service');
+
+// Mock the logger
+jest.mock('../../src/utils/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn()
+  }
+}));
+
+import { cacheService } from '../../src/services/cache.service';
+
+describe('Idempotency Middleware', () => {
+  let mockCacheService: MockCacheService;
+  let next: jest.Mock;
+
+  const createRequest = (key: string | undefined, body: any, clientId = 'test-client'): AuthenticatedRequest => ({
+    body,
+    clientId,
+    header: jest.fn((name: string) => (name.toLowerCase() === 'idempotency-key' ? key : undefined))
+  } as unknown as AuthenticatedRequest);
+
+  const createResponse = () => {
+    const res: any = { statusCode: 200, headers: {} };
+    res.status = jest.fn((code: number) => {
+      res.statusCode = code;
+      return res;
+    });
+    res.json = jest.fn(() => res);
+    res.once = jest.fn();
+    res.setHeader = jest.fn((name: string, value: string) => {
+      res.headers[name] = value;
+    });
+    return res as Response & { headers: Record<string, string> };
+  };
+
+  // Simulates the controller completing the first request
+  const completeFirstRequest = async (key: string, body: any) => {
+    const res = createResponse();
+    await idempotency(createRequest(key, body), res, next);
+    res.status(201).json({ transactionId: 'txn_first' });
+    await Promise.resolve();
+  };
+
+  beforeEach(() => {
+    mockCacheService = new MockCacheService();
+    (cacheService as any) = mockCacheService;
+    next = jest.fn();
+  });
+
+  it('should pass through when no Idempotency-Key header is sent', async () => {
+    await idempotency(createRequest(undefined, createValidPaymentRequest()), createResponse(), next);
+
+    expect(next).toHaveBeenCalledTimes(1);
+  });
+
+  it('should replay the stored response for a repeated key and body', async () => {
+    const body = createValidPaymentRequest();
+    await completeFirstRequest('key-1', body);
+
+    const res = createResponse();
+    await idempotency(createRequest('key-1', { ...body }), res, next);
+
+    expect(next).toHaveBeenCalledTimes(1);
+    expect(res.status).toHaveBeenCalledWith(201);
+    expect(res.json).toHaveBeenCalledWith({ transactionId: 'txn_first' });
+    expect(res.headers['Idempotent-Replayed']).toBe('true');
+  });
+
+  it('should reject a reused key with a different payload', async () => {
+    await completeFirstRequest('key-2', createValidPaymentRequest());
+
+    const res = createResponse();
+    await idempotency(createRequest('key-2', createValidPaymentRequest({ amount: 99 })), res, next);
+
+    expect(res.status).toHaveBeenCalledWith(422);
+  });
+
+  it('should reject a repeated key while the original is in flight', async () => {
+    const body = createValidPaymentRequest();
+    await idempotency(createRequest('key-3', body), createResponse(), next);
+
+    const res = createResponse();
+    await idempotency(createRequest('key-3', body), res, next);
+
+    expect(res.status).toHaveBeenCalledWith(409);
+    expect(next).toHaveBeenCalledTimes(1);
+  });
+
+  it('should scope keys per client', async () => {
+    const body = createValidPaymentRequest();
+    await completeFirstRequest('key-4', body);
+
+    await idempotency(createRequest('key-4', body, 'other-client'), createResponse(), next);
+
+    expect(next).toHaveBeenCalledTimes(2);
+  });
+
+  it('should release the key when the request fails with a server error', async () => {
+    const body = createValidPaymentRequest();
+    const res = createResponse();
+    await idempotency(createRequest('key-5', body), res, next);
+    res.status(500).json({ error: 'Payment processing failed' });
+
+    await idempotency(createRequest('key-5', body), createResponse(), next);
+
+    expect(next).toHaveBeenCalledTimes(2);
+  });
+
+  it('should keep the in-flight lock alive while the request is still running', async () => {
+    jest.useFakeTimers();
+    const expireSpy = jest.spyOn(mockCacheService, 'expire');
+    const res = createResponse();
+
+    try {
+      await idempotency(createRequest('slow-key', createValidPaymentRequest()), res, next);
+      jest.advanceTimersByTime(300 * 1000);
+      const refreshes = expireSpy.mock.calls.length;
+
+      res.status(201).json({ transactionId: 'txn_slow' });
+      jest.advanceTimersByTime(300 * 1000);
+
+      expect(refreshes).toBeGreaterThanOrEqual(7);
+      expect(expireSpy).toHaveBeenLastCalledWith(expect.stringContaining('slow-key'), 120);
+      expect(expireSpy).toHaveBeenCalledTimes(refreshes);
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+});
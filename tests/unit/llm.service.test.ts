@@ -1,4 +1,5 @@
 import { LLMService } from '../../src/services/llm.service';
+import { riskCacheService } from '../../src/services/risk-cache.service';
 import { createMockTransaction, createMockRiskAssessment } from '../utils/test-helpers';
 import { MockCacheService, MockCircuitBreaker } from '../utils/mock-services';
 import { TransactionStatus, RiskAssessment } from '../../src/types';
@@ -63,15 +64,16 @@ describe('LLMService', () => {
     describe('Success Cases', () => {
       it('should return cached risk assessment when available', async () => {
         const transaction = createMockTransaction();
-        const cachedAssessment = createMockRiskAssessment(transaction.id);
+        // Assessed earlier for another transaction with the same features
+        const cachedAssessment = createMockRiskAssessment('txn_earlier');
         
         // Set up cache to return the assessment
-        const cacheKey = `risk_assessment:${transaction.id}`;
+        const cacheKey = await riskCacheService.keyFor(transaction, (llmService as any).provider);
         mockCacheService.set(cacheKey, cachedAssessment);
 
         const result = await llmService.assessTransactionRisk(transaction);
 
-        expect(result).toEqual(cachedAssessment);
+        expect(result).toEqual({ ...cachedAssessment, transactionId: transaction.id });
         expect(mockedAxios.post).not.toHaveBeenCalled();
       });
 
@@ -160,6 +162,7 @@ describe('LLMService', () => {
         transactionId: transaction.id,
         riskScore: 0.5,
         riskLevel: 'MEDIUM',
+        fallback: true,
         explanation: expect.stringContaining('Risk assessment service temporarily unavailable'),
         factors: expect.arrayContaining([
           expect.objectContaining({
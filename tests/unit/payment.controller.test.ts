@@ -4,6 +4,7 @@ import { AuthenticatedRequest } from '../../src/middleware/auth.middleware';
 import { TransactionStatus } from '../../src/types';
 import { createValidPaymentRequest, createMockTransaction, TestData } from '../utils/test-helpers';
 import { MockCacheService, MockEventPublisher } from '../utils/mock-services';
+import { InMemoryTransactionRepository } from '../../src/repositories/in-memory-transaction.repository';
 
 // Mock dependencies
 jest.mock('../../src/services/payment.service');
@@ -35,9 +36,11 @@ describe('PaymentController', () => {
   let mockStatus: jest.Mock;
   let mockCacheService: MockCacheService;
   let mockEventPublisher: MockEventPublisher;
+  let repository: InMemoryTransactionRepository;
 
   beforeEach(() => {
-    paymentController = new PaymentController();
+    repository = new InMemoryTransactionRepository();
+    paymentController = new PaymentController(repository);
     
     mockJson = jest.fn().mockReturnValue({});
     mockStatus = jest.fn().mockReturnValue({ json: mockJson });
@@ -137,6 +140,24 @@ describe('PaymentController', () => {
         expect(publishedEvents[0].event).toBe('transaction.created');
         expect(publishedEvents[0].data.transactionId).toBe('txn_mock-uuid-1234');
       });
+
+      it('should persist the processed transaction', async () => {
+        const paymentRequest = createValidPaymentRequest();
+        mockRequest.body = paymentRequest;
+
+        const mockProcessedTransaction = createMockTransaction({
+          id: 'txn_mock-uuid-1234',
+          status: TransactionStatus.SUCCESS
+        });
+
+        (paymentService.processTransaction as jest.Mock).mockResolvedValue(mockProcessedTransaction);
+
+        await paymentController.processPayment(mockRequest as AuthenticatedRequest, mockResponse as Response);
+
+        const stored = await repository.findById('txn_mock-uuid-1234');
+        expect(stored?.status).toBe(TransactionStatus.SUCCESS);
+        expect(stored?.createdAt).toBeInstanceOf(Date);
+      });
     });
 
     describe('Error Handling', () => {
@@ -193,7 +214,7 @@ describe('PaymentController', () => {
 
   describe('getPaymentStatus', () => {
     describe('Success Cases', () => {
-      it('should retrieve payment status from memory', async () => {
+      it('should retrieve payment status from the repository', async () => {
         const transactionId = 'txn_test-123';
         mockRequest.params = { transactionId };
 
@@ -202,8 +223,7 @@ describe('PaymentController', () => {
           status: TransactionStatus.SUCCESS
         });
 
-        // Set up the transaction in controller's memory
-        (paymentController as any).transactions.set(transactionId, mockTransaction);
+        await repository.save(mockTransaction);
 
         await paymentController.getPaymentStatus(mockRequest as AuthenticatedRequest, mockResponse as Response);
 
@@ -221,7 +241,7 @@ describe('PaymentController', () => {
         });
       });
 
-      it('should retrieve payment status from cache when not in memory', async () => {
+      it('should retrieve payment status from cache before the repository', async () => {
         const transactionId = 'txn_test-123';
         mockRequest.params = { transactionId };
 
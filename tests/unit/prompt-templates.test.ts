@@ -0,0 +1,128 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as yaml from 'js-yaml';
+import { PromptTemplateService } from '../../src/config/prompt-templates';
+import { BUILTIN_PROMPT_TEMPLATE } from '../../src/risk-models/prompt';
+import { createMockTransaction } from '../utils/test-helpers';
+import { logger } from '../../src/utils/logger';
+
+// Mock the logger
+jest.mock('../../src/utils/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn()
+  }
+}));
+
+describe('PromptTemplateService', () => {
+  let dir: string;
+  let templatesPath: string;
+
+  const template = (label: string) => ({ system: `System ${label}`, user: `User ${label}: {{amount}}` });
+  const writeTemplates = (config: unknown) => fs.writeFileSync(templatesPath, yaml.dump(config));
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'prompt-templates-'));
+    templatesPath = path.join(dir, 'prompts.yml');
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should load the shipped templates', () => {
+    const service = new PromptTemplateService();
+
+    expect(service.getVersions()).toContain('v2');
+    expect(service.select('openai', 'any-model', createMockTransaction()).version).toBe('v2');
+  });
+
+  it('should prefer a provider/model selection over the provider and the default', () => {
+    writeTemplates({
+      default: 'a',
+      select: { ollama: 'b', 'ollama/llama3.1': 'c' },
+      templates: { a: template('a'), b: template('b'), c: template('c') }
+    });
+    const service = new PromptTemplateService(templatesPath);
+    const transaction = createMockTransaction();
+
+    expect(service.select('ollama', 'llama3.1', transaction).version).toBe('c');
+    expect(service.select('ollama', 'mistral', transaction).version).toBe('b');
+    expect(service.select('openai', undefined, transaction).version).toBe('a');
+  });
+
+  it('should split traffic by weight and keep each transaction on one version', () => {
+    writeTemplates({
+      default: { a: 3, b: 1 },
+      templates: { a: template('a'), b: template('b') }
+    });
+    const service = new PromptTemplateService(templatesPath);
+
+    const versions = Array.from({ length: 400 }, (_, index) =>
+      service.select('openai', undefined, createMockTransaction({ id: `txn_${index}` })).version
+    );
+    const share = versions.filter(version => version === 'b').length / versions.length;
+
+    expect(share).toBeGreaterThan(0.15);
+    expect(share).toBeLessThan(0.35);
+    expect(service.select('openai', undefined, createMockTransaction({ id: 'txn_7' })).version).toBe(versions[7]);
+  });
+
+  it('should fall back to the built-in template when the file is invalid', () => {
+    writeTemplates({ default: 'missing', templates: { a: template('a') } });
+
+    const service = new PromptTemplateService(templatesPath);
+
+    expect(service.select('openai', undefined, createMockTransaction())).toEqual(BUILTIN_PROMPT_TEMPLATE);
+  });
+
+  it('should reject templates that reference unknown variables and keep the last good ones', () => {
+    writeTemplates({ default: 'a', templates: { a: template('a') } });
+    const service = new PromptTemplateService(templatesPath);
+
+    writeTemplates({ default: 'a', templates: { a: { system: 'System', user: 'Card number {{pan}}' } } });
+
+    expect(service.reloadTemplates()).toBe(false);
+    expect(service.getTemplate('a')!.user).toBe('User a: {{amount}}');
+  });
+
+  it('should hot reload when the watched file changes and report accepted changes only', async () => {
+    const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+    process.env.PROMPT_TEMPLATES_WATCH_INTERVAL_MS = '50';
+    writeTemplates({ default: 'a', templates: { a: template('a') } });
+    const service = new PromptTemplateService(templatesPath);
+    const onReload = jest.fn();
+    service.watchTemplates(onReload);
+
+    try {
+      await delay(100);
+      writeTemplates({ default: 'b', templates: { a: template('a'), b: template('b') } });
+      for (let i = 0; i < 40 && onReload.mock.calls.length === 0; i++) {
+        await delay(50);
+      }
+      expect(service.select('openai', undefined, createMockTransaction()).version).toBe('b');
+
+      writeTemplates({ default: 'missing', templates: { a: template('a') } });
+      for (let i = 0; i < 40 && !(logger.error as jest.Mock).mock.calls.length; i++) {
+        await delay(50);
+      }
+      expect(logger.error).toHaveBeenCalledWith('Rejected prompt templates change; keeping last good templates', expect.anything());
+      expect(onReload).toHaveBeenCalledTimes(1);
+      expect(service.getVersions()).toEqual(['a', 'b']);
+    } finally {
+      service.unwatchTemplates();
+      delete process.env.PROMPT_TEMPLATES_WATCH_INTERVAL_MS;
+    }
+  });
+
+  it('should reject weights that are all zero', () => {
+    writeTemplates({ default: { a: 0 }, templates: { a: template('a') } });
+
+    const service = new PromptTemplateService(templatesPath);
+
+    expect(service.getVersions()).toEqual([BUILTIN_PROMPT_TEMPLATE.version]);
+  });
+});
@@ -0,0 +1,111 @@
+import { Redactor, RedactionPolicy } from '../../src/utils/redaction';
+import { buildRiskAssessmentPrompt } from '../../src/risk-models/prompt';
+import { createMockTransaction } from '../utils/test-helpers';
+
+describe('Redactor', () => {
+  const policy = (overrides: Partial<RedactionPolicy> = {}): RedactionPolicy => ({
+    emails: 'hash',
+    tokens: 'mask',
+    logs: true,
+    hashSalt: 'test-salt',
+    ...overrides
+  });
+
+  describe('email', () => {
+    it('should hash the local part and keep the domain', () => {
+      const redactor = new Redactor(policy());
+
+      const redacted = redactor.email('Jane.Doe@Example.com');
+
+      expect(redacted).toMatch(/^[0-9a-f]{8}@example\.com$/);
+      expect(redactor.email('jane.doe@example.com')).toBe(redacted);
+      expect(redactor.email('john@example.com')).not.toBe(redacted);
+    });
+
+    it('should depend on the salt', () => {
+      const first = new Redactor(policy()).email('jane@example.com');
+      const second = new Redactor(policy({ hashSalt: 'other-salt' })).email('jane@example.com');
+
+      expect(first).not.toBe(second);
+    });
+
+    it('should keep only the domain in domain mode', () => {
+      expect(new Redactor(policy({ emails: 'domain' })).email('jane@example.com')).toBe('redacted@example.com');
+    });
+
+    it('should leave emails untouched when disabled', () => {
+      expect(new Redactor(policy({ emails: 'none' })).email('jane@example.com')).toBe('jane@example.com');
+    });
+  });
+
+  describe('token', () => {
+    const redactor = new Redactor(policy());
+
+    it('should keep the type prefix and last 4 characters', () => {
+      expect(redactor.token('tok_visa_4242424242424242')).toBe('tok_visa_****4242');
+      expect(redactor.token('tok_sandbox_decline_0002')).toBe('tok_sandbox_****0002');
+    });
+
+    it('should keep only the last 4 characters of tokens without a type', () => {
+      expect(redactor.token('pm_1Nq8Xk2eZvKYlo2C')).toBe('****lo2C');
+    });
+
+    it('should leave tokens untouched when disabled', () => {
+      expect(new Redactor(policy({ tokens: 'none' })).token('tok_visa_4242424242424242'))
+        .toBe('tok_visa_4242424242424242');
+    });
+  });
+
+  describe('text', () => {
+    it('should scrub emails and tokens inside free text', () => {
+      const redactor = new Redactor(policy({ emails: 'domain' }));
+
+      const redacted = redactor.text('{"explanation": "jane@example.com paid with tok_visa_4242424242424242"');
+
+      expect(redacted).toBe('{"explanation": "redacted@example.com paid with tok_visa_****4242"');
+    });
+  });
+
+  describe('value', () => {
+    const redactor = new Redactor(policy({ emails: 'domain' }));
+
+    it('should scrub nested strings without mutating the input', () => {
+      const input = {
+        transactionId: 'txn_123',
+        email: 'jane@example.com',
+        details: [{ note: 'card tok_visa_4242424242424242 declined' }],
+        amount: 5000
+      };
+
+      expect(redactor.value(input)).toEqual({
+        transactionId: 'txn_123',
+        email: 'redacted@example.com',
+        details: [{ note: 'card tok_visa_****4242 declined' }],
+        amount: 5000
+      });
+      expect(input.email).toBe('jane@example.com');
+    });
+
+    it('should leave dates and other instances as they are', () => {
+      const assessedAt = new Date();
+
+      expect(redactor.value({ assessedAt }).assessedAt).toBe(assessedAt);
+    });
+  });
+});
+
+describe('buildRiskAssessmentPrompt', () => {
+  it('should not send the customer email or full payment token to the model', () => {
+    const transaction = createMockTransaction({
+      email: 'jane.doe@example.com',
+      source: 'tok_visa_4242424242424242'
+    });
+
+    const prompt = buildRiskAssessmentPrompt(transaction);
+
+    expect(prompt).not.toContain('jane.doe');
+    expect(prompt).not.toContain('4242424242424242');
+    expect(prompt).toContain('@example.com');
+    expect(prompt).toContain('tok_visa_****4242');
+  });
+});
@@ -0,0 +1,188 @@
+import { ReviewService } from '../../src/services/review.service';
+import { TransactionStatus } from '../../src/types';
+import { InMemoryTransactionRepository } from '../../src/repositories/in-memory-transaction.repository';
+import { paymentService } from '../../src/services/payment.service';
+import { SANDBOX_TOKENS } from '../../src/providers/sandbox.provider';
+import { providerRegistry } from '../../src/providers/provider.registry';
+import { createMockTransaction } from '../utils/test-helpers';
+import { MockCacheService, MockEventPublisher } from '../utils/mock-services';
+
+jest.mock('../../src/services/cache.service');
+jest.mock('../../src/utils/events');
+jest.mock('../../src/services/llm.service', () => ({
+  llmService: {
+    assessTransactionRisk: jest.fn()
+  }
+}));
+jest.mock('../../src/services/velocity.service', () => ({
+  velocityService: {
+    recordAndCount: jest.fn().mockResolvedValue({})
+  }
+}));
+
+// Mock the logger
+jest.mock('../../src/utils/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn()
+  }
+}));
+
+import { cacheService } from '../../src/services/cache.service';
+import { eventPublisher } from '../../src/utils/events';
+
+describe('ReviewService', () => {
+  let reviewService: ReviewService;
+  let repository: InMemoryTransactionRepository;
+  let mockEventPublisher: MockEventPublisher;
+
+  const createHeldTransaction = async () => {
+    const transaction = createMockTransaction({
+      status: TransactionStatus.PENDING,
+      provider: 'square',
+      riskScore: 0.85,
+      riskFactors: [{ factor: 'high_amount_rule', weight: 0.3, description: 'Transaction amount exceeds $1000' }],
+      explanation: 'Unusually large amount for a new customer',
+      review: { status: 'pending', queuedAt: new Date() }
+    });
+    await repository.save(transaction);
+    return transaction;
+  };
+
+  beforeEach(() => {
+    repository = new InMemoryTransactionRepository();
+    reviewService = new ReviewService(repository);
+    mockEventPublisher = new MockEventPublisher();
+
+    (cacheService as any) = new MockCacheService();
+    (eventPublisher as any) = mockEventPublisher;
+  });
+
+  it('should list only transactions awaiting review', async () => {
+    const held = await createHeldTransaction();
+    await repository.save(createMockTransaction({ status: TransactionStatus.PENDING }));
+
+    const pending = await reviewService.listPending();
+
+    expect(pending).toHaveLength(1);
+    expect(pending[0].id).toBe(held.id);
+    expect(pending[0].riskFactors).toHaveLength(1);
+  });
+
+  it('should fill a page with reviewable transactions when older pending ones are not under review', async () => {
+    for (let i = 0; i < 3; i++) {
+      await repository.save(createMockTransaction({ status: TransactionStatus.PENDING, createdAt: new Date(Date.now() - 60000) }));
+    }
+    const held = await createHeldTransaction();
+
+    const pending = await reviewService.listPending(2);
+
+    expect(pending.map(transaction => transaction.id)).toEqual([held.id]);
+  });
+
+  it('should settle an approved transaction and record the reviewer', async () => {
+    const held = await createHeldTransaction();
+
+    const result = await reviewService.approve(held.id, 'risk-analyst', 'Verified with customer');
+
+    expect(result.status).toBe(TransactionStatus.SUCCESS);
+    expect(result.review).toMatchObject({ status: 'approved', reviewer: 'risk-analyst', reason: 'Verified with customer' });
+    expect((await repository.findById(held.id))?.status).toBe(TransactionStatus.SUCCESS);
+
+    const events = mockEventPublisher.getEventsByType('transaction.updated');
+    expect(events).toHaveLength(1);
+    expect(events[0].data).toMatchObject({ action: 'review_approved', reviewer: 'risk-analyst' });
+  });
+
+  it('should charge only once when two approvals race', async () => {
+    const held = await createHeldTransaction();
+    const authorizeSpy = jest.spyOn(providerRegistry.getProvider('square'), 'authorize');
+
+    const results = await Promise.allSettled([
+      reviewService.approve(held.id, 'risk-analyst', 'Verified with customer'),
+      reviewService.approve(held.id, 'second-analyst', 'Looks fine')
+    ]);
+
+    expect(results.map(result => result.status).sort()).toEqual(['fulfilled', 'rejected']);
+    expect(results.find(result => result.status === 'rejected')).toMatchObject({ reason: { statusCode: 409 } });
+    expect(authorizeSpy).toHaveBeenCalledTimes(1);
+    authorizeSpy.mockRestore();
+  });
+
+  it('should put the transaction back in the queue when the provider call fails', async () => {
+    const held = await createHeldTransaction();
+    jest.spyOn(paymentService, 'settleReviewedTransaction').mockRejectedValueOnce(new Error('provider down'));
+
+    await expect(reviewService.approve(held.id, 'risk-analyst', 'Verified with customer')).rejects.toThrow('provider down');
+
+    const stored = await repository.findById(held.id);
+    expect(stored?.status).toBe(TransactionStatus.PENDING);
+    expect(stored?.review?.status).toBe('pending');
+    expect(await reviewService.listPending()).toHaveLength(1);
+  });
+
+  it('should fail a declined transaction', async () => {
+    const held = await createHeldTransaction();
+
+    const result = await reviewService.decline(held.id, 'risk-analyst', 'Stolen card report');
+
+    expect(result.status).toBe(TransactionStatus.FAILED);
+    expect(result.review?.status).toBe('declined');
+    expect(await reviewService.listPending()).toHaveLength(0);
+  });
+
+  describe('Holds after the decision', () => {
+    // Charged through the sandbox provider, then held by a late risk assessment
+    const createSettledHold = async (source?: string) => {
+      const transaction = await paymentService.processTransaction(createMockTransaction(source ? { source } : {}));
+      const previousStatus = transaction.status;
+      transaction.status = TransactionStatus.PENDING;
+      transaction.review = {
+        status: 'pending',
+        queuedAt: new Date(),
+        triggeredBy: ['deferred_risk_model'],
+        previousStatus
+      };
+      await repository.save(transaction);
+      return transaction;
+    };
+
+    it('should release the hold on approval without charging again', async () => {
+      const held = await createSettledHold();
+
+      const result = await reviewService.approve(held.id, 'risk-analyst', 'Known customer');
+
+      expect(result.status).toBe(TransactionStatus.SUCCESS);
+      expect(result.attempts).toHaveLength(1);
+    });
+
+    it('should refund the charge when declined', async () => {
+      const held = await createSettledHold();
+
+      const result = await reviewService.decline(held.id, 'risk-analyst', 'Confirmed fraud');
+
+      expect(result.status).toBe(TransactionStatus.REFUNDED);
+      expect(result.refunds).toEqual([expect.objectContaining({ amount: held.amount, reason: 'Confirmed fraud', requestedBy: 'risk-analyst' })]);
+      expect((await repository.findById(held.id))?.status).toBe(TransactionStatus.REFUNDED);
+    });
+
+    it('should void a payment the provider has not settled yet when declined', async () => {
+      const held = await createSettledHold(`${SANDBOX_TOKENS.PENDING}_card`);
+      expect(held.review?.previousStatus).toBe(TransactionStatus.PROCESSING);
+
+      const result = await reviewService.decline(held.id, 'risk-analyst', 'Confirmed fraud');
+
+      expect(result.status).toBe(TransactionStatus.VOIDED);
+    });
+  });
+
+  it('should reject decisions on transactions that are not under review', async () => {
+    const held = await createHeldTransaction();
+    await reviewService.decline(held.id, 'risk-analyst', 'Stolen card report');
+
+    await expect(reviewService.approve(held.id, 'risk-analyst', 'Changed my mind')).rejects.toMatchObject({ statusCode: 409 });
+    await expect(reviewService.approve('txn_missing', 'risk-analyst', 'Unknown')).rejects.toMatchObject({ statusCode: 404 });
+  });
+});
@@ -0,0 +1,85 @@
+import { RiskCacheService } from '../../src/services/risk-cache.service';
+import { HeuristicRiskModel } from '../../src/risk-models/heuristic.model';
+import { metrics, METRICS } from '../../src/utils/metrics';
+import { MockCacheService } from '../utils/mock-services';
+import { createMockTransaction, createMockRiskAssessment } from '../utils/test-helpers';
+
+jest.mock('../../src/services/cache.service');
+
+// Mock the logger
+jest.mock('../../src/utils/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn()
+  }
+}));
+
+import { cacheService } from '../../src/services/cache.service';
+
+describe('RiskCacheService', () => {
+  const provider = new HeuristicRiskModel();
+  let service: RiskCacheService;
+
+  beforeEach(() => {
+    (cacheService as any) = new MockCacheService();
+    service = new RiskCacheService(3600, [1000, 10000, 100000]);
+    metrics.reset();
+  });
+
+  it('should share an assessment between transactions with the same features', async () => {
+    const first = createMockTransaction({ amount: 5000, email: 'alice@example.com', source: 'tok_visa_4242' });
+    const second = createMockTransaction({ amount: 7500, email: 'bob@Example.com', source: 'tok_visa_1881' });
+
+    await service.set(first, provider, createMockRiskAssessment(first.id, { riskScore: 0.3 }));
+    const cached = await service.get(second, provider);
+
+    expect(cached).toMatchObject({ transactionId: second.id, riskScore: 0.3 });
+    expect(metrics.get(METRICS.RISK_CACHE_LOOKUPS, { provider: 'heuristic', result: 'hit' })).toBe(1);
+  });
+
+  it('should miss when a feature differs', async () => {
+    const transaction = createMockTransaction({ amount: 5000, email: 'alice@example.com' });
+    await service.set(transaction, provider, createMockRiskAssessment(transaction.id));
+
+    expect(await service.get({ ...transaction, amount: 50000 }, provider)).toBeNull();
+    expect(await service.get({ ...transaction, email: 'alice@mailinator.com' }, provider)).toBeNull();
+    expect(metrics.get(METRICS.RISK_CACHE_LOOKUPS, { provider: 'heuristic', result: 'miss' })).toBe(2);
+  });
+
+  it('should keep raw identifiers out of the key', async () => {
+    const key = await service.keyFor(createMockTransaction({ email: 'alice@example.com' }), provider);
+
+    expect(key).toMatch(/^risk_assessment:0:[0-9a-f]{64}$/);
+  });
+
+  it('should scrub customer identifiers the model echoed back before caching', async () => {
+    const transaction = createMockTransaction({ email: 'alice@example.com', source: 'tok_visa_4242424242424242' });
+    await service.set(transaction, provider, createMockRiskAssessment(transaction.id, {
+      explanation: 'alice@example.com paid with tok_visa_4242424242424242'
+    }));
+
+    const cached = await service.get(transaction, provider);
+
+    expect(cached!.explanation).not.toContain('alice@');
+    expect(cached!.explanation).toContain('tok_visa_****4242');
+  });
+
+  it('should stop returning earlier assessments after invalidation', async () => {
+    const transaction = createMockTransaction();
+    await service.set(transaction, provider, createMockRiskAssessment(transaction.id));
+
+    expect(await service.invalidate()).toBe(1);
+    expect(await service.get(transaction, provider)).toBeNull();
+  });
+
+  it('should not cache when the TTL is zero', async () => {
+    const disabled = new RiskCacheService(0);
+    const transaction = createMockTransaction();
+
+    await disabled.set(transaction, provider, createMockRiskAssessment(transaction.id));
+
+    expect(await disabled.get(transaction, provider)).toBeNull();
+  });
+});
@@ -0,0 +1,346 @@
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { createRiskModelProvider } from '../../src/risk-models';
+import { HeuristicRiskModel } from '../../src/risk-models/heuristic.model';
+import { OpenAICompatibleRiskModel } from '../../src/risk-models/openai-compatible.model';
+import { OllamaRiskModel } from '../../src/risk-models/ollama.model';
+import { ChatMessage, ChatRiskModel } from '../../src/risk-models/chat-risk-model';
+import { InvalidRiskResponseError, RiskModelProvider, readRiskModelSettings } from '../../src/risk-models/risk-model-provider';
+import { metrics, METRICS } from '../../src/utils/metrics';
+import { LLMService } from '../../src/services/llm.service';
+import { riskCacheService } from '../../src/services/risk-cache.service';
+import { MockCacheService } from '../utils/mock-services';
+import { createMockTransaction, createMockRiskAssessment } from '../utils/test-helpers';
+
+jest.mock('../../src/services/cache.service');
+jest.mock('../../src/utils/events');
+jest.mock('../../src/utils/retry', () => ({
+  retryService: { execute: (operation: () => Promise<any>) => operation() }
+}));
+
+// Mock the logger
+jest.mock('../../src/utils/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn()
+  }
+}));
+
+import { cacheService } from '../../src/services/cache.service';
+
+describe('Risk Models', () => {
+  // Mid-afternoon UTC so the night-time heuristic stays out of the way
+  const afternoon = new Date('2026-10-19T14:00:00Z');
+
+  describe('HeuristicRiskModel', () => {
+    const model = new HeuristicRiskModel();
+
+    it('should return the same assessment for the same transaction', async () => {
+      const transaction = createMockTransaction({ email: 'buyer@mailinator.com', createdAt: afternoon });
+
+      const first = await model.assess(transaction);
+      const second = await model.assess(transaction);
+
+      expect({ ...first, assessedAt: undefined }).toEqual({ ...second, assessedAt: undefined });
+      expect(first.factors.map(factor => factor.factor)).toEqual(['disposable_email']);
+    });
+
+    it('should score flagged sources and large amounts as high risk', async () => {
+      const result = await model.assess(createMockTransaction({
+        source: 'tok_stolen_card',
+        amount: 600000,
+        createdAt: afternoon
+      }));
+
+      expect(result.riskScore).toBe(0.9);
+      expect(result.riskLevel).toBe('CRITICAL');
+      expect(result.factors.map(factor => factor.factor)).toEqual(['very_high_amount', 'flagged_source']);
+    });
+
+    it('should treat an ordinary transaction as low risk', async () => {
+      const result = await model.assess(createMockTransaction({ createdAt: afternoon }));
+
+      expect(result.riskScore).toBe(0.05);
+      expect(result.riskLevel).toBe('LOW');
+      expect(result.factors).toEqual([]);
+    });
+  });
+
+  describe('HTTP backends', () => {
+    let server: http.Server;
+    let requests: Array<{ url?: string; headers: http.IncomingHttpHeaders; body: any }>;
+    const assessment = { riskScore: 0.2, riskLevel: 'LOW', explanation: 'Stubbed', factors: [], recommendations: [] };
+
+    // Minimal stand-in for an OpenAI-compatible server and Ollama, as used in CI
+    beforeAll(async () => {
+      server = http.createServer((req, res) => {
+        let data = '';
+        req.on('data', chunk => { data += chunk; });
+        req.on('end', () => {
+          requests.push({ url: req.url, headers: req.headers, body: JSON.parse(data) });
+          const content = JSON.stringify(assessment);
+          const payload = req.url === '/api/chat'
+            ? { message: { role: 'assistant', content } }
+            : { choices: [{ message: { role: 'assistant', content } }] };
+          res.setHeader('Content-Type', 'application/json');
+          res.end(JSON.stringify(payload));
+        });
+      });
+      await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+      const { port } = server.address() as AddressInfo;
+      process.env.OPENAI_BASE_URL = `http://127.0.0.1:${port}/v1`;
+      process.env.OPENAI_API_KEY = 'stub-key';
+      process.env.OLLAMA_BASE_URL = `http://127.0.0.1:${port}`;
+    });
+
+    afterAll(async () => {
+      delete process.env.OPENAI_BASE_URL;
+      delete process.env.OPENAI_API_KEY;
+      delete process.env.OLLAMA_BASE_URL;
+      await new Promise(resolve => server.close(resolve));
+    });
+
+    beforeEach(() => {
+      requests = [];
+    });
+
+    it('should call the chat completions API of an OpenAI-compatible server', async () => {
+      const transaction = createMockTransaction();
+
+      const result = await new OpenAICompatibleRiskModel().assess(transaction);
+
+      expect(result).toMatchObject({ transactionId: transaction.id, riskScore: 0.2, explanation: 'Stubbed' });
+      expect(requests[0].url).toBe('/v1/chat/completions');
+      expect(requests[0].headers.authorization).toBe('Bearer stub-key');
+      expect(requests[0].body.messages.map((message: any) => message.role)).toEqual(['system', 'user']);
+      expect(requests[0].body.response_format.type).toBe('json_schema');
+    });
+
+    it('should call the native Ollama chat API with a JSON Schema format', async () => {
+      const result = await new OllamaRiskModel().assess(createMockTransaction());
+
+      expect(result.riskScore).toBe(0.2);
+      expect(requests[0].url).toBe('/api/chat');
+      expect(requests[0].body.stream).toBe(false);
+      expect(requests[0].body.format.required).toContain('riskScore');
+    });
+  });
+
+  describe('Response Validation', () => {
+    // Replays canned model answers and records the conversation it was sent
+    class ScriptedModel extends ChatRiskModel {
+      readonly name = 'scripted';
+      readonly settings = readRiskModelSettings('SCRIPTED', 1000);
+      conversations: ChatMessage[][] = [];
+
+      constructor(private responses: string[]) {
+        super();
+      }
+
+      protected async complete(messages: ChatMessage[]): Promise<string> {
+        this.conversations.push([...messages]);
+        return this.responses.shift() || '';
+      }
+    }
+
+    const valid = { riskScore: 0.3, riskLevel: 'LOW', explanation: 'Fine', factors: [], recommendations: [] };
+
+    beforeEach(() => {
+      metrics.reset();
+    });
+
+    it('should coerce and clamp scores and normalize the risk level', async () => {
+      const model = new ScriptedModel([JSON.stringify({
+        ...valid,
+        riskScore: '1.7',
+        riskLevel: 'high',
+        factors: [{ factor: 'amount', weight: -0.2, description: 'Odd', extra: true }],
+        confidence: 'ignored'
+      })]);
+
+      const result = await model.assess(createMockTransaction());
+
+      expect(result.riskScore).toBe(1);
+      expect(result.riskLevel).toBe('HIGH');
+      expect(result.factors).toEqual([{ factor: 'amount', weight: 0, description: 'Odd' }]);
+      expect(result).not.toHaveProperty('confidence');
+    });
+
+    it('should render the selected prompt template and record its version', async () => {
+      const model = new ScriptedModel([JSON.stringify(valid)]);
+
+      const result = await model.assess(createMockTransaction({ amount: 12345, currency: 'EUR' }));
+
+      expect(result.promptVersion).toBe('v2');
+      expect(model.conversations[0][1].content).toContain('Amount: 123.45 EUR');
+      expect(model.conversations[0][1].content).not.toContain('{{');
+    });
+
+    it('should repair near-JSON output', async () => {
+      const model = new ScriptedModel([
+        "Here is the assessment:\n```json\n{riskScore: 0.4, 'riskLevel': 'MEDIUM', explanation: \"Ok\", factors: [],}\n```"
+      ]);
+
+      const result = await model.assess(createMockTransaction());
+
+      expect(result.riskScore).toBe(0.4);
+      expect(result.riskLevel).toBe('MEDIUM');
+      expect(metrics.get(METRICS.RISK_MODEL_RESPONSES, { provider: 'scripted', outcome: 'repaired' })).toBe(1);
+    });
+
+    it('should retry once with a corrective prompt when validation fails', async () => {
+      const model = new ScriptedModel([
+        JSON.stringify({ ...valid, riskLevel: 'SEVERE' }),
+        JSON.stringify(valid)
+      ]);
+
+      const result = await model.assess(createMockTransaction());
+
+      expect(result.riskLevel).toBe('LOW');
+      const followUp = model.conversations[1];
+      expect(followUp.map(message => message.role)).toEqual(['system', 'user', 'assistant', 'user']);
+      expect(followUp[3].content).toContain('"riskLevel" must be one of');
+      expect(metrics.get(METRICS.RISK_MODEL_RESPONSES, { provider: 'scripted', outcome: 'corrected' })).toBe(1);
+    });
+
+    it('should give up after the corrective retry', async () => {
+      const model = new ScriptedModel(['not json at all', '{"riskScore": 0.2}']);
+
+      await expect(model.assess(createMockTransaction())).rejects.toBeInstanceOf(InvalidRiskResponseError);
+      expect(model.conversations).toHaveLength(2);
+      expect(metrics.get(METRICS.RISK_MODEL_RESPONSES, { provider: 'scripted', outcome: 'invalid' })).toBe(1);
+    });
+  });
+
+  describe('Provider selection', () => {
+    it('should build the configured provider', () => {
+      expect(createRiskModelProvider('heuristic')).toBeInstanceOf(HeuristicRiskModel);
+      expect(createRiskModelProvider('ollama')).toBeInstanceOf(OllamaRiskModel);
+    });
+
+    it('should fall back to the OpenAI-compatible backend for unknown names', () => {
+      expect(createRiskModelProvider('mystery')).toBeInstanceOf(OpenAICompatibleRiskModel);
+    });
+  });
+
+  describe('LLMService', () => {
+    beforeEach(() => {
+      (cacheService as any) = new MockCacheService();
+    });
+
+    it('should assess through the injected provider', async () => {
+      const transaction = createMockTransaction({ createdAt: afternoon });
+
+      const result = await new LLMService(new HeuristicRiskModel()).assessTransactionRisk(transaction);
+
+      expect(result.explanation).toContain('Heuristic assessment');
+      expect(result.confidence).toBe(1);
+    });
+
+    it('should derive the risk level from the score and lower confidence when they disagree', async () => {
+      const contradictoryModel: RiskModelProvider = {
+        name: 'contradictory',
+        settings: { timeoutMs: 1000, failureThreshold: 5, resetTimeout: 30000 },
+        assess: async (transaction) => ({
+          ...createMockRiskAssessment(transaction.id),
+          riskScore: 0.9,
+          riskLevel: 'LOW'
+        })
+      };
+
+      const result = await new LLMService(contradictoryModel).assessTransactionRisk(createMockTransaction());
+
+      expect(result.riskLevel).toBe('CRITICAL');
+      expect(result.reportedRiskLevel).toBe('LOW');
+      expect(result.confidence).toBe(0);
+    });
+
+    describe('Hedged requests', () => {
+      const modelAnswering = (name: string, afterMs: number, riskScore: number, fail = false): RiskModelProvider => ({
+        name,
+        settings: { timeoutMs: 1000, failureThreshold: 5, resetTimeout: 30000 },
+        assess: jest.fn(async (transaction) => {
+          await new Promise(resolve => setTimeout(resolve, afterMs));
+          if (fail) {
+            throw new Error(`${name} unavailable`);
+          }
+          return createMockRiskAssessment(transaction.id, { riskScore, riskLevel: 'LOW' });
+        })
+      });
+
+      const hedgedService = (primary: RiskModelProvider, hedge: RiskModelProvider) => {
+        const service = new LLMService(primary, hedge);
+        (service as any).hedgeDelayMs = 20;
+        return service;
+      };
+
+      beforeEach(() => {
+        metrics.reset();
+      });
+
+      it('should use the hedge backend when the primary is slow', async () => {
+        const hedge = modelAnswering('backup', 10, 0.15);
+
+        const result = await hedgedService(modelAnswering('primary', 300, 0.25), hedge).assessTransactionRisk(createMockTransaction());
+
+        expect(result.riskScore).toBe(0.15);
+        expect(metrics.get(METRICS.RISK_MODEL_HEDGES, { provider: 'backup', winner: 'hedge' })).toBe(1);
+      });
+
+      it('should not cache a hedge answer as the primary backend\'s', async () => {
+        const primary = modelAnswering('primary', 300, 0.25);
+        const service = hedgedService(primary, modelAnswering('backup', 10, 0.15));
+        const transaction = createMockTransaction();
+
+        await service.assessTransactionRisk(transaction);
+        expect(await riskCacheService.get(transaction, primary)).toBeNull();
+
+        await hedgedService(modelAnswering('primary', 1, 0.25), modelAnswering('backup', 10, 0.15)).assessTransactionRisk(transaction);
+        expect(await riskCacheService.get(transaction, primary)).toEqual(expect.objectContaining({ riskScore: 0.25 }));
+      });
+
+      it('should not hedge when the primary answers in time', async () => {
+        const hedge = modelAnswering('backup', 10, 0.15);
+
+        const result = await hedgedService(modelAnswering('primary', 1, 0.25), hedge).assessTransactionRisk(createMockTransaction());
+
+        expect(result.riskScore).toBe(0.25);
+        expect(hedge.assess).not.toHaveBeenCalled();
+      });
+
+      it('should hedge right away when the primary fails', async () => {
+        const service = hedgedService(modelAnswering('primary', 1, 0.25, true), modelAnswering('backup', 1, 0.15));
+        (service as any).hedgeDelayMs = 5000;
+
+        const result = await service.assessTransactionRisk(createMockTransaction());
+
+        expect(result.riskScore).toBe(0.15);
+      });
+
+      it('should fall back when both backends fail', async () => {
+        const service = hedgedService(modelAnswering('primary', 1, 0.25, true), modelAnswering('backup', 1, 0.15, true));
+
+        const result = await service.assessTransactionRisk(createMockTransaction());
+
+        expect(result.explanation).toContain('Risk assessment service temporarily unavailable');
+      });
+    });
+
+    it("should apply the provider's own timeout", async () => {
+      const slowModel: RiskModelProvider = {
+        name: 'slow',
+        settings: { timeoutMs: 20, failureThreshold: 5, resetTimeout: 30000 },
+        assess: async (transaction) => {
+          await new Promise(resolve => setTimeout(resolve, 200));
+          return createMockRiskAssessment(transaction.id);
+        }
+      };
+
+      const result = await new LLMService(slowModel).assessTransactionRisk(createMockTransaction());
+
+      expect(result.explanation).toContain('Risk assessment service temporarily unavailable');
+    });
+  });
+});
@@ -0,0 +1,135 @@
+import { RuleSimulationService } from '../../src/services/rule-simulation.service';
+import { InMemoryTransactionRepository } from '../../src/repositories/in-memory-transaction.repository';
+import { fraudRuleConfigService } from '../../src/config/fraud-rules';
+import { FraudRule } from '../../src/types';
+import { createMockTransaction } from '../utils/test-helpers';
+
+// Mock the logger
+jest.mock('../../src/utils/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn()
+  }
+}));
+
+describe('RuleSimulationService', () => {
+  let repository: InMemoryTransactionRepository;
+  let service: RuleSimulationService;
+
+  const blockYenRule: FraudRule = {
+    name: 'block_yen',
+    enabled: true,
+    weight: 0.5,
+    action: 'block',
+    conditions: [{ field: 'currency', operator: 'eq', value: 'JPY', description: 'Paid in yen' }]
+  };
+
+  beforeEach(() => {
+    repository = new InMemoryTransactionRepository();
+    service = new RuleSimulationService(repository);
+  });
+
+  it('should compare candidate rules against the live config per transaction', async () => {
+    const simulation = await service.simulate({
+      rules: [blockYenRule],
+      transactions: [
+        createMockTransaction({ currency: 'JPY' }),
+        createMockTransaction()
+      ]
+    });
+
+    const [yen, dollar] = simulation.results;
+    expect(yen.live.decision).toBe('allow');
+    expect(yen.candidate.decision).toBe('block');
+    expect(yen.candidate.blockedRules).toEqual(['block_yen']);
+    expect(yen.changed).toBe(true);
+    expect(dollar.changed).toBe(false);
+
+    expect(simulation.summary).toMatchObject({
+      transactions: 2,
+      changed: 1,
+      decisionChanges: 1,
+      ruleMatches: { block_yen: { live: 0, candidate: 1 } }
+    });
+  });
+
+  it('should not change the live configuration', async () => {
+    const before = fraudRuleConfigService.getConfig();
+
+    await service.simulate({
+      rules: [{ ...blockYenRule, name: 'suspicious_email_domain' }],
+      transactions: [createMockTransaction({ currency: 'JPY' })]
+    });
+
+    expect(fraudRuleConfigService.getConfig()).toEqual(before);
+  });
+
+  it('should evaluate a full candidate config including provider selection', async () => {
+    const config = fraudRuleConfigService.getConfig();
+    config.providers = [{ name: 'stripe', priority: 1, riskTolerance: 'high', enabled: true }];
+
+    const simulation = await service.simulate({
+      config,
+      transactions: [createMockTransaction()]
+    });
+
+    expect(simulation.results[0].candidate.provider).toBe('stripe');
+    expect(simulation.summary.candidate.providers).toEqual({ stripe: 1 });
+  });
+
+  it('should decide from the risk thresholds after the rules', async () => {
+    const config = fraudRuleConfigService.getConfig();
+    config.thresholds = { ...config.thresholds, high: 0.7, critical: 0.85 };
+
+    const simulation = await service.simulate({
+      config,
+      transactions: [createMockTransaction({ modelScore: 0.86 } as any)]
+    });
+
+    const [result] = simulation.results;
+    expect(result.live.decision).toBe('review');
+    expect(result.candidate.decision).toBe('decline');
+    expect(result.candidate.scoreBreakdown.combinedScore).toBe(0.86);
+    expect(result.changed).toBe(true);
+    expect(simulation.summary.candidate.decisions.decline).toBe(1);
+  });
+
+  it('should reuse the model score recorded on stored transactions', async () => {
+    const stored = createMockTransaction({
+      scoreBreakdown: { strategy: 'max', ruleScore: 0, modelScore: 0.95, combinedScore: 0.95 }
+    });
+    await repository.save(stored);
+
+    const simulation = await service.simulate({
+      rules: [blockYenRule],
+      transactionIds: [stored.id]
+    });
+
+    expect(simulation.results[0].live.decision).toBe('decline');
+    expect(simulation.results[0].candidate.decision).toBe('decline');
+  });
+
+  it('should replay stored transactions and report unknown ids', async () => {
+    const stored = createMockTransaction({ currency: 'JPY' });
+    await repository.save(stored);
+
+    const simulation = await service.simulate({
+      rules: [blockYenRule],
+      transactionIds: [stored.id, 'txn_missing']
+    });
+
+    expect(simulation.results[0].transactionId).toBe(stored.id);
+    expect(simulation.results[0].candidate.decision).toBe('block');
+    expect(simulation.notFound).toEqual(['txn_missing']);
+  });
+
+  it('should reject an invalid candidate config', async () => {
+    const config = fraudRuleConfigService.getConfig();
+    config.providers = [];
+
+    await expect(service.simulate({ config, transactions: [createMockTransaction()] }))
+      .rejects.toMatchObject({ statusCode: 422 });
+  });
+});
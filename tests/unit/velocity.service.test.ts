@@ -0,0 +1,116 @@
+import { VelocityService, parseWindows } from '../../src/services/velocity.service';
+import { createMockTransaction } from '../utils/test-helpers';
+
+jest.mock('../../src/config/redis', () => ({
+  redisClient: {
+    getClient: jest.fn()
+  }
+}));
+
+// Mock the logger
+jest.mock('../../src/utils/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn()
+  }
+}));
+
+// Minimal in-memory stand-in for the sorted-set commands used by VelocityService
+class FakeRedis {
+  sets: Map<string, Map<string, number>> = new Map();
+  shouldFail = false;
+
+  multi() {
+    const ops: Array<() => number> = [];
+    const chain: any = {
+      zAdd: (key: string, member: { score: number; value: string }) => {
+        ops.push(() => {
+          const set = this.sets.get(key) || new Map<string, number>();
+          set.set(member.value, member.score);
+          this.sets.set(key, set);
+          return 1;
+        });
+        return chain;
+      },
+      zRemRangeByScore: (key: string, min: number, max: number) => {
+        ops.push(() => {
+          const set = this.sets.get(key) || new Map<string, number>();
+          let removed = 0;
+          set.forEach((score, value) => {
+            if (score >= min && score <= max) {
+              set.delete(value);
+              removed++;
+            }
+          });
+          return removed;
+        });
+        return chain;
+      },
+      zCount: (key: string, min: number, max: number) => {
+        ops.push(() => Array.from((this.sets.get(key) || new Map()).values())
+          .filter(score => score >= min && score <= max).length);
+        return chain;
+      },
+      pExpire: () => {
+        ops.push(() => 1);
+        return chain;
+      },
+      exec: async () => {
+        if (this.shouldFail) {
+          throw new Error('Redis unavailable');
+        }
+        return ops.map(op => op());
+      }
+    };
+    return chain;
+  }
+}
+
+describe('VelocityService', () => {
+  let redis: FakeRedis;
+  let velocityService: VelocityService;
+
+  beforeEach(() => {
+    redis = new FakeRedis();
+    velocityService = new VelocityService(redis as any, '1h,24h');
+  });
+
+  it('should parse window specifications', () => {
+    expect(parseWindows('30m, 1h,7d')).toEqual([
+      { label: '30m', ms: 30 * 60 * 1000 },
+      { label: '1h', ms: 60 * 60 * 1000 },
+      { label: '7d', ms: 7 * 24 * 60 * 60 * 1000 }
+    ]);
+    expect(() => parseWindows('1w')).toThrow('Invalid velocity window: 1w');
+  });
+
+  it('should count transactions per email, source and client within each window', async () => {
+    const base = new Date('2026-10-19T12:00:00Z').getTime();
+    const hoursAgo = (hours: number) => new Date(base - hours * 60 * 60 * 1000);
+
+    await velocityService.recordAndCount(createMockTransaction({ email: 'a@example.com', clientId: 'c1', createdAt: hoursAgo(5) }));
+    await velocityService.recordAndCount(createMockTransaction({ email: 'A@example.com', clientId: 'c1', createdAt: hoursAgo(0.5) }));
+
+    const features = await velocityService.recordAndCount(
+      createMockTransaction({ email: 'a@example.com', source: 'tok_other', clientId: 'c1', createdAt: hoursAgo(0) })
+    );
+
+    expect(features).toMatchObject({
+      email_count_1h: 2,
+      email_count_24h: 3,
+      email_frequency: 2,
+      source_count_1h: 1,
+      client_count_24h: 3
+    });
+  });
+
+  it('should return no features when Redis is unavailable', async () => {
+    redis.shouldFail = true;
+
+    const features = await velocityService.recordAndCount(createMockTransaction());
+
+    expect(features).toEqual({});
+  });
+});
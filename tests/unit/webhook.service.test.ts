@@ -0,0 +1,62 @@
+import * as crypto from 'crypto';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { WebhookService } from '../../src/services/webhook.service';
+
+// Mock the logger
+jest.mock('../../src/utils/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    error: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn()
+  }
+}));
+
+describe('WebhookService', () => {
+  let server: http.Server;
+  let url: string;
+  let received: Array<{ headers: http.IncomingHttpHeaders; body: string }>;
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      let body = '';
+      req.on('data', chunk => { body += chunk; });
+      req.on('end', () => {
+        received.push({ headers: req.headers, body });
+        res.end();
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/hooks`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    received = [];
+  });
+
+  it('should post the event with an HMAC signature of the body', async () => {
+    const service = new WebhookService({ url, secret: 'shh', events: ['risk.assessed'], timeoutMs: 1000 });
+    const data = { source: 'DeferredRiskService', timestamp: new Date(), transactionId: 'txn_1', movedToReview: true };
+
+    await service.deliver('risk.assessed', data);
+
+    expect(received).toHaveLength(1);
+    const expected = crypto.createHmac('sha256', 'shh').update(received[0].body).digest('hex');
+    expect(received[0].headers['x-webhook-signature']).toBe(`sha256=${expected}`);
+    expect(received[0].headers['x-webhook-event']).toBe('risk.assessed');
+    expect(JSON.parse(received[0].body)).toMatchObject({ event: 'risk.assessed', data: { transactionId: 'txn_1' } });
+  });
+
+  it('should leave the body unsigned without a secret', async () => {
+    const service = new WebhookService({ url, events: ['risk.assessed'], timeoutMs: 1000 });
+
+    await service.deliver('risk.assessed', { source: 'test', timestamp: new Date() });
+
+    expect(received[0].headers['x-webhook-signature']).toBeUndefined();
+  });
+});
@@ -94,6 +94,17 @@ export class MockCacheService {
     return true;
   }
 
+  async setIfNotExists(key: string, value: any, ttl?: number): Promise<boolean> {
+    if (this.shouldFail) {
+      throw new Error('Cache service unavailable');
+    }
+    if (this.cache.has(key)) {
+      return false;
+    }
+    this.cache.set(key, value);
+    return true;
+  }
+
   async del(key: string): Promise<boolean> {
     if (this.shouldFail) {
       throw new Error('Cache service unavailable');
@@ -102,6 +113,22 @@ export class MockCacheService {
     return true;
   }
 
+  async increment(key: string): Promise<number | null> {
+    if (this.shouldFail) {
+      throw new Error('Cache service unavailable');
+    }
+    const value = (this.cache.get(key) || 0) + 1;
+    this.cache.set(key, value);
+    return value;
+  }
+
+  async expire(key: string, ttl: number): Promise<boolean> {
+    if (this.shouldFail) {
+      throw new Error('Cache service unavailable');
+    }
+    return this.cache.has(key);
+  }
+
   async exists(key: string): Promise<boolean> {
     if (this.shouldFail) {
       throw new Error('Cache service unavailable');